@@ -4,50 +4,82 @@
   Licensed under the MIT License (http://opensource.org/licenses/MIT) 
 */
 
-import { App, Plugin, PluginSettingTab, Setting, addIcon, ToggleComponent, Notice, PluginManifest, WorkspaceLeaf, View, MarkdownView, TFile, FileView} from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, addIcon, ToggleComponent, Notice, PluginManifest, WorkspaceLeaf, View, MarkdownView, TFile, FileView, TAbstractFile, Events, EventRef, ItemView, debounce} from 'obsidian';
+import { Level, LevelSource, CssClass, ClipboardGuardMode, ObfuscationMethod, levelStrictness } from './src/constants';
+import { NoteLevel, PrivacyDecision, PrivacyRule, RuleEffect, RuleMatch, evaluatePrivacy, noteLevelOf, rulesFromLegacySettings } from './src/rules';
+import { LevelLock, SetPassphraseModal } from './src/lock';
+import { EmbedGuard } from './src/embeds';
+import { ClipboardGuard } from './src/clipboard';
+import { TitleGuard } from './src/titles';
+import { SurfaceGuard } from './src/surfaces';
+import { StatusBarIndicator, LEVEL_NAMES, formatDuration } from './src/statusBar';
+import { PrivacyProfile, ProfileSuggestModal, createProfile } from './src/profiles';
+import { LeafRevealCallback, LevelChangeCallback, PrivacyGlassesApi } from './src/api';
+import { ScheduleRule, activeScheduleRule } from './src/schedule';
+import { RedactionModal, redactNote } from './src/redact';
+import { AUDIT_VIEW_TYPE, AuditView } from './src/audit';
+import { REVEAL_LOG_VIEW_TYPE, RevealLog, RevealLogView } from './src/revealLog';
+import { obfuscationExtension, obfuscationPostProcessor, refreshObfuscation, rerenderPreviews, restoreObfuscation } from './src/obfuscation';
+import { MAX_HEADING_DEPTH, headlinesCss, headlinesOptionsOf } from './src/headlines';
+import { inlinePrivateExtension, inlinePrivatePostProcessor, inlinePrivateCalloutCss } from './src/inlinePrivate';
 
-enum Level {
-  "HideAll" = "hide-all",
-  "HidePrivate" = "hide-private",
-  "RevealAll" = "reveal-all",
-  "RevealHeadlines" = "reveal-headlines",
-}
-
-enum CssClass {
-  "BlurAll" = "privacy-glasses-blur-all",
-  "RevealOnHover" = "privacy-glasses-reveal-on-hover",
-  "RevealAll" = "privacy-glasses-reveal-all",
-  "RevealUnderCaret" = "privacy-glasses-reveal-under-caret",
-  "RevealHeadlines" = "privacy-glasses-reveal-headlines",
-  "Reveal" = "privacy-glasses-reveal",
-  "IsMdView" = "is-md-view",
-  "IsNonMdView" = "is-non-md-view",
-  "IsMdViewHeadlinesOnly" = "is-md-view-headlines-only",
-  "PrivacyGlassesReveal" = "privacy-glasses-reveal",
-}
-
-export default class PrivacyGlassesPlugin extends Plugin {
+export default class PrivacyGlassesPlugin extends Plugin implements PrivacyGlassesApi {
   settings: PrivacyGlassesSettings;
   statusBar: HTMLElement;
+  statusBarIndicator: StatusBarIndicator;
+  // a single pane revealed regardless of the level, until its time is up, it shows another file or loses focus
+  temporaryReveal: WorkspaceLeaf | null = null;
+  temporaryRevealUntil: number = 0;
+  temporaryRevealEl: HTMLElement | null = null;
   noticeMsg: Notice;
-  blurLevelStyleEl: HTMLElement;
   privacyGlasses: boolean = false;
   revealed: HTMLElement[];
   currentLevel: Level = Level.HidePrivate;
   lastEventTime: number;
-  privateDirsStyleEl: HTMLElement;
+  // every window, the main one and pop-outs, gets its own style elements
+  windowStyleEls: Map<Document, WindowStyleEls> = new Map();
+  privateDirsCss: string = "";
+
+  lock: LevelLock;
+  embedGuard: EmbedGuard;
+  profileRibbonEls: Map<string, HTMLElement> = new Map();
+  surfaceGuard: SurfaceGuard;
+  clipboardGuard: ClipboardGuard;
+  titleGuard: TitleGuard;
+  revealLog: RevealLog;
+  // subscribers of the public api, see `PrivacyGlassesApi`
+  events: Events = new Events();
+  // file path each readable leaf showed when it was last revealed, "" for leaves without a file
+  revealedLeaves: WeakMap<WorkspaceLeaf, string> = new WeakMap();
+  // index of the schedule rule active at the last check, -1 for none, null before the first check
+  scheduleSegment: number | null = null;
 
   constructor(app: App, manifest: PluginManifest) {
     super(app, manifest);
     this.revealed = [];
+    this.lock = new LevelLock(this);
+    this.embedGuard = new EmbedGuard(this);
+    this.surfaceGuard = new SurfaceGuard(this);
+    this.clipboardGuard = new ClipboardGuard(this);
+    this.titleGuard = new TitleGuard(this);
+    this.revealLog = new RevealLog(this);
   }
 
   async onload() {
     this.statusBar = this.addStatusBarItem();
 
     await this.loadSettings();
+    this.statusBarIndicator = new StatusBarIndicator(this, this.statusBar);
 
     this.addSettingTab(new privacyGlassesSettingTab(this.app, this));
+    this.registerView(AUDIT_VIEW_TYPE, (leaf) => new AuditView(leaf, this));
+    this.registerView(REVEAL_LOG_VIEW_TYPE, (leaf) => new RevealLogView(leaf, this));
+    this.revealLog.register();
+
+    this.registerEditorExtension(inlinePrivateExtension(this));
+    this.registerMarkdownPostProcessor(inlinePrivatePostProcessor(this));
+    this.registerEditorExtension(obfuscationExtension(this));
+    this.registerMarkdownPostProcessor(obfuscationPostProcessor(this));
 
     addIcon("eye", eyeIcon);
     addIcon("eye-closed", eyeClosedIcon);
@@ -55,54 +87,124 @@ export default class PrivacyGlassesPlugin extends Plugin {
     addIcon("eye-glasses", eyeGlasses);
     
     this.addRibbonIcon("eye-closed", "Hide all", () => {
-        this.currentLevel = Level.HideAll;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.HideAll, LevelSource.Ribbon);
       });
       this.addRibbonIcon("eye-slash", "Reveal non-private", () => {
-        this.currentLevel = Level.HidePrivate;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.HidePrivate, LevelSource.Ribbon);
       });
       this.addRibbonIcon("eye-glasses", "Reveal headlines only", () => {
-        this.currentLevel = Level.RevealHeadlines;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealHeadlines, LevelSource.Ribbon);
       });
       this.addRibbonIcon("eye", "Reveal all", () => {
-        this.currentLevel = Level.RevealAll;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealAll, LevelSource.Ribbon);
       });
 
     this.addCommand({
         id: "privacy-glasses-hide-all",
         name: "Privacy Glasses - hide all",
         callback: () => {
-          this.currentLevel = Level.HideAll;
-          this.updateLeavesAndGlobalReveals();
+          this.setLevel(Level.HideAll, LevelSource.Command);
         },
       });
     this.addCommand({
       id: "privacy-glasses-hide-private",
       name: "Privacy Glasses - hide files in folders marked as private",
       callback: () => {
-        this.currentLevel = Level.HidePrivate;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.HidePrivate, LevelSource.Command);
       },
     });
     this.addCommand({
       id: "privacy-glasses-reveal-headlines",
       name: "Privacy Glasses - reveal headlines only, keeping body content hidden",
       callback: () => {
-        this.currentLevel = Level.RevealHeadlines;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealHeadlines, LevelSource.Command);
       },
     });
     this.addCommand({
       id: "privacy-glasses-reveal-all",
       name: "Privacy Glasses - do not hide anything",
       callback: () => {
-        this.currentLevel = Level.RevealAll;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealAll, LevelSource.Command);
+      },
+    });
+    this.addCommand({
+      id: "privacy-glasses-reveal-pane",
+      name: "Privacy Glasses - reveal the current pane for a while",
+      checkCallback: (checking) => {
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        if (!leaf || !(leaf.view instanceof FileView)) {
+          return false;
+        }
+        if (!checking) {
+          this.revealLeafTemporarily(leaf);
+        }
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "privacy-glasses-copy-redacted",
+      name: "Privacy Glasses - copy the current note redacted",
+      checkCallback: (checking) => this.redactActiveNote(checking, "copy"),
+    });
+    this.addCommand({
+      id: "privacy-glasses-export-redacted",
+      name: "Privacy Glasses - export the current note redacted",
+      checkCallback: (checking) => this.redactActiveNote(checking, "export"),
+    });
+    this.addCommand({
+      id: "privacy-glasses-audit",
+      name: "Privacy Glasses - audit which notes are private",
+      callback: () => {
+        this.openReportView(AUDIT_VIEW_TYPE);
       },
     });
+    this.addCommand({
+      id: "privacy-glasses-reveal-log",
+      name: "Privacy Glasses - show the reveal log",
+      callback: () => {
+        this.openReportView(REVEAL_LOG_VIEW_TYPE);
+      },
+    });
+    this.addCommand({
+      id: "privacy-glasses-switch-profile",
+      name: "Privacy Glasses - switch profile",
+      callback: () => {
+        new ProfileSuggestModal(this.app, this).open();
+      },
+    });
+    this.settings.profiles.forEach((profile) => this.registerProfile(profile));
+    this.addCommand({
+      id: "privacy-glasses-lock",
+      name: "Privacy Glasses - lock now",
+      callback: () => {
+        if (!this.lock.isEnabled) {
+          new Notice("Set a passphrase in the Privacy Glasses settings to use the lock");
+        }
+        this.setLevel(Level.HideAll, LevelSource.Command);
+      },
+    });
+    const noteLevelCommands: [NoteLevel | null, string, string][] = [
+      [NoteLevel.Hidden, "set-note-hidden", "always hide the current note"],
+      [NoteLevel.Headlines, "set-note-headlines", "always reveal only the headlines of the current note"],
+      [NoteLevel.Public, "set-note-public", "never treat the current note as private"],
+      [null, "clear-note-level", "clear the privacy level of the current note"],
+    ];
+    noteLevelCommands.forEach(([noteLevel, id, name]) => {
+      this.addCommand({
+        id: `privacy-glasses-${id}`,
+        name: `Privacy Glasses - ${name}`,
+        checkCallback: (checking) => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file || file.extension !== "md") {
+            return false;
+          }
+          if (!checking) {
+            this.setNoteLevel(file, noteLevel);
+          }
+          return true;
+        },
+      });
+    });
     // this.addCommand({
     //   id: 'toggle-privacy-glasses', 
     //   name: 'Toggle Privacy Glasses',
@@ -113,36 +215,215 @@ export default class PrivacyGlassesPlugin extends Plugin {
 
     this.registerInterval(window.setInterval(() => {
       this.checkIdleTimeout();
+      this.checkSchedule();
+      this.checkTemporaryReveal();
+      this.surfaceGuard.updateGraphLabels();
     }, 1000));
 
     this.app.workspace.onLayoutReady(() => {
-      this.registerDomActivityEvents(this.app.workspace.rootSplit.win);
-      this.currentLevel = this.settings.blurOnStartup;
-      this.updateLeavesAndGlobalReveals();
-      this.updatePrivateDirsEl(this.app.workspace.rootSplit.win.document);
+      // pop-outs that are already open when the plugin loads are never announced by `window-open`
+      const wins: Set<Window> = new Set([this.app.workspace.rootSplit.win]);
+      this.app.workspace.iterateAllLeaves((leaf) => {
+        wins.add(leaf.view.containerEl.win);
+      });
+      wins.forEach((win) => this.registerDomActivityEvents(win));
+      // with a passphrase set we always start hidden and the startup level has to be unlocked
+      if (this.lock.isEnabled) {
+        this.switchLevel(Level.HideAll, LevelSource.Startup);
+      }
+      const startupProfile = this.getProfile(this.settings.startupProfile);
+      if (startupProfile) {
+        this.applyProfile(startupProfile, LevelSource.Startup);
+      }
+      else {
+        this.setLevel(this.settings.blurOnStartup, LevelSource.Startup);
+      }
+      this.updatePrivateDirsEl();
       this.ensureLeavesHooked();
+      if (this.settings.revealLogEnabled) {
+        this.revealLog.prune();
+      }
     });
 
     this.registerEvent(this.app.workspace.on("window-open", (win) => {
       this.registerDomActivityEvents(win.win);
+      this.updateGlobalRevealStyle();
+    }));
+
+    this.registerEvent(this.app.workspace.on("window-close", (win) => {
+      this.removeWindowStyle(win.doc);
+    }));
+
+    // private files are listed explicitly in the explorer css, so it follows every change that can affect a rule
+    const updatePrivateDirs = debounce(() => this.updatePrivateDirsEl(), 500, true);
+    this.registerEvent(this.app.vault.on("create", updatePrivateDirs));
+    this.registerEvent(this.app.vault.on("delete", updatePrivateDirs));
+    this.registerEvent(this.app.vault.on("rename", updatePrivateDirs));
+    // a renamed note gets its real name back in the tab header, so it is masked again
+    this.registerEvent(this.app.vault.on("rename", () => this.titleGuard.update()));
+    this.registerEvent(this.app.metadataCache.on("changed", () => {
+      updatePrivateDirs();
+      this.updateLeavesStyle();
+      this.statusBarIndicator.update();
+    }));
+
+    this.registerEvent(this.app.workspace.on("file-menu", (menu, file, source, leaf) => {
+      if (!leaf || !["more-options", "pane-more-options", "tab-header"].includes(source)) {
+        return;
+      }
+      menu.addItem((item) => item
+        .setTitle(`Reveal pane for ${formatDuration(this.settings.temporaryRevealSeconds)}`)
+        .setIcon("eye")
+        .setSection("view")
+        .onClick(() => {
+          this.revealLeafTemporarily(leaf);
+        }));
+    }));
+
+    // page preview announces the link before the popover is added to the dom
+    this.registerEvent((this.app.workspace as Events).on("hover-link", (e: { linktext: string, sourcePath: string }) => {
+      this.embedGuard.onHoverLink(e.linktext, e.sourcePath);
     }));
 
     this.registerEvent(this.app.workspace.on("active-leaf-change", (e) => {
+      // obsidian passes null when no leaf is active anymore, only the status bar has to follow
+      if (!e) {
+        this.statusBarIndicator.update();
+        return;
+      }
+      if (this.temporaryReveal && e !== this.temporaryReveal) {
+        this.endTemporaryReveal();
+      }
       this.ensureLeavesHooked();
       this.updateLeafViewStyle(e.view);
+      this.titleGuard.updateLeaf(e);
+      this.statusBarIndicator.update();
     }));
     this.lastEventTime = performance.now();
   }
 
+  // every level change goes through here, so leaving "Hide all" always passes the passphrase lock
+  async setLevel(level: Level, source: LevelSource = LevelSource.Api) {
+    if (this.lock.isRequired(this.currentLevel, level) && !(await this.lock.unlock())) {
+      return false;
+    }
+    this.switchLevel(level, source);
+    return true;
+  }
+
+  switchLevel(level: Level, source: LevelSource) {
+    const previous = this.currentLevel;
+    this.currentLevel = level;
+    this.updateLeavesAndGlobalReveals();
+    if (level !== previous) {
+      this.events.trigger("level-change", level, previous, source);
+    }
+  }
+
+  getLevel() {
+    return this.currentLevel;
+  }
+
+  isPrivate(file: TAbstractFile) {
+    return this.isPrivateFile(file);
+  }
+
+  on(name: "level-change", callback: LevelChangeCallback): EventRef;
+  on(name: "leaf-reveal" | "leaf-hide", callback: LeafRevealCallback): EventRef;
+  on(name: string, callback: LevelChangeCallback | LeafRevealCallback): EventRef {
+    return this.events.on(name, callback as (...data: unknown[]) => void);
+  }
+
+  offref(ref: EventRef) {
+    this.events.offref(ref);
+  }
+
+  redactActiveNote(checking: boolean, action: "copy" | "export") {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") {
+      return false;
+    }
+    if (!checking) {
+      this.app.vault.cachedRead(file).then((content) => {
+        new RedactionModal(this, file, redactNote(this, file, content), action).open();
+      }).catch(() => {
+        new Notice("Privacy Glasses: reading the note to redact failed");
+      });
+    }
+    return true;
+  }
+
+  // an already open report is refreshed instead of opened twice
+  async openReportView(type: string) {
+    const existing = this.app.workspace.getLeavesOfType(type)[0];
+    if (existing) {
+      (existing.view as AuditView | RevealLogView).render();
+      this.app.workspace.revealLeaf(existing);
+      return;
+    }
+    await this.app.workspace.getLeaf("tab").setViewState({ type, active: true });
+  }
+
+  getProfile(id: string) {
+    return this.settings.profiles.find((p) => p.id === id);
+  }
+
+  async applyProfile(profile: PrivacyProfile, source: LevelSource) {
+    if (!(await this.setLevel(profile.level, source))) {
+      return;
+    }
+    Object.assign(this.settings, JSON.parse(JSON.stringify(profile.settings)));
+    await this.saveSettings();
+    this.updateBlurLevelEl();
+    this.updatePrivateDirsEl();
+    this.updateLeavesAndGlobalReveals();
+    this.app.workspace.updateOptions();
+    rerenderPreviews(this.app.workspace);
+  }
+
+  // every profile gets its own command, so it can be bound to a hotkey
+  registerProfile(profile: PrivacyProfile) {
+    this.addCommand({
+      id: `privacy-glasses-profile-${profile.id}`,
+      name: `Privacy Glasses - switch to profile "${profile.name}"`,
+      callback: () => {
+        const current = this.getProfile(profile.id);
+        if (current) {
+          this.applyProfile(current, LevelSource.Command);
+        }
+      },
+    });
+    this.profileRibbonEls.get(profile.id)?.remove();
+    this.profileRibbonEls.delete(profile.id);
+    if (profile.showInRibbon) {
+      this.profileRibbonEls.set(profile.id, this.addRibbonIcon("eye-glasses", `Privacy profile: ${profile.name}`, () => {
+        const current = this.getProfile(profile.id);
+        if (current) {
+          this.applyProfile(current, LevelSource.Ribbon);
+        }
+      }));
+    }
+  }
+
+  unregisterProfile(profile: PrivacyProfile) {
+    this.removeCommand(`privacy-glasses-profile-${profile.id}`);
+    this.profileRibbonEls.get(profile.id)?.remove();
+    this.profileRibbonEls.delete(profile.id);
+  }
+
   // we hook into setState function of the view, because it is synchronously called
   // before the content switch. this is to prevent private content from being accidentally briefly revealed
   onBeforeViewStateChange(l: WorkspaceLeaf) {
+    if (l === this.temporaryReveal) {
+      this.clearTemporaryReveal();
+    }
     this.revealed.forEach((r) => {
       r.removeClass(CssClass.Reveal);
     });
   }
 
   onAfterViewStateChange(l: WorkspaceLeaf) {
+    this.titleGuard.updateLeaf(l);
     // some panels update using the same event, so it is important to update leaves after they are ready
     setTimeout(() => {
       this.updateLeavesStyle();
@@ -152,6 +433,7 @@ export default class PrivacyGlassesPlugin extends Plugin {
 
   ensureLeavesHooked() {
     this.app.workspace.iterateAllLeaves((e) => {
+      this.titleGuard.observeLeaf(e);
       if (isHooked(e.view)) {
         return;
       }
@@ -164,41 +446,134 @@ export default class PrivacyGlassesPlugin extends Plugin {
   }
 
   registerDomActivityEvents(win: Window) {
-    this.registerDomEvent(win, "mousedown", (e) => {
-      this.lastEventTime = e.timeStamp;
+    // event timestamps are relative to each window's own time origin, so the main window's clock is used instead
+    const onActivity = () => {
+      this.lastEventTime = performance.now();
+      this.hideIdleWarning();
+    };
+    this.registerDomEvent(win, "mousedown", onActivity);
+    this.registerDomEvent(win, "keydown", onActivity);
+    this.registerDomEvent(win, "mousemove", onActivity);
+    // scroll doesn't bubble, it only reaches the window while capturing
+    this.registerDomEvent(win, "scroll", onActivity, { capture: true, passive: true });
+    this.registerDomEvent(win, "blur", () => {
+      // focus moving to another Obsidian window blurs this one too, that is not a focus loss of the app
+      window.setTimeout(() => {
+        if (!this.appHasFocus()) {
+          this.hideForTrigger(this.settings.windowBlurLevel, LevelSource.Focus);
+        }
+      }, 0);
     });
-    this.registerDomEvent(win, "keydown", (e) => {
-      this.lastEventTime = e.timeStamp;
+    this.registerDomEvent(win.document, "visibilitychange", () => {
+      if (win.document.visibilityState === "hidden") {
+        this.hideForTrigger(this.settings.hiddenLevel, LevelSource.Hidden);
+      }
     });
-    this.addBlurLevelEl(win.document);
+    this.clipboardGuard.register(win);
+    this.addWindowStyleEls(win.document);
+    this.embedGuard.observe(win.document);
+    this.surfaceGuard.observe(win.document);
+    this.titleGuard.observe(win.document);
+  }
+
+  appHasFocus() {
+    return Array.from(this.windowStyleEls.keys()).some((doc) => doc.hasFocus());
+  }
+
+  // auto-hide triggers only ever make the level stricter, and leaving what they set is locked like "Hide all"
+  hideForTrigger(level: Level | "", source: LevelSource) {
+    if (!level || levelStrictness(level) <= levelStrictness(this.currentLevel)) {
+      return;
+    }
+    this.hideIdleWarning();
+    this.lock.engage();
+    this.setLevel(level, source);
   }
 
   checkIdleTimeout() {
     if (this.settings.blurOnIdleTimeoutSeconds < 0) {
       return;
     }
-    if (this.currentLevel === Level.HideAll) {
+    if (levelStrictness(this.currentLevel) >= levelStrictness(this.settings.idleLevel)) {
       return;
     }
     if (!this.lastEventTime) {
       return;
     }
     const now = performance.now();
-    if ((now - this.lastEventTime) / 1000 >=
-      this.settings.blurOnIdleTimeoutSeconds) {
-      this.currentLevel = Level.HideAll;
-      this.updateLeavesAndGlobalReveals();
+    const remaining = Math.ceil(this.settings.blurOnIdleTimeoutSeconds - (now - this.lastEventTime) / 1000);
+    if (remaining <= 0) {
+      this.hideForTrigger(this.settings.idleLevel, LevelSource.Idle);
+    }
+    else if (remaining <= this.settings.idleWarningSeconds) {
+      this.showIdleWarning(remaining);
     }
   }
 
+  // the schedule only acts when it crosses a boundary, so a level chosen by hand holds until the next one
+  checkSchedule() {
+    const { schedule, scheduleFallbackLevel } = this.settings;
+    if (!this.app.workspace.layoutReady || schedule.length === 0) {
+      return;
+    }
+    const segment = activeScheduleRule(schedule, new Date());
+    if (segment === this.scheduleSegment) {
+      return;
+    }
+    this.scheduleSegment = segment;
+    const level = segment >= 0 ? schedule[segment].level : scheduleFallbackLevel;
+    // a schedule never asks for the passphrase, a locked level stays until it is unlocked by hand
+    if (!level || level === this.currentLevel || this.lock.isRequired(this.currentLevel, level)) {
+      return;
+    }
+    this.setLevel(level, LevelSource.Schedule);
+  }
+
+  showIdleWarning(remaining: number) {
+    const message = `Privacy Glasses: hiding in ${remaining} s because of inactivity`;
+    if (this.noticeMsg) {
+      this.noticeMsg.setMessage(message);
+      return;
+    }
+    this.noticeMsg = new Notice(message, 0);
+  }
+
+  hideIdleWarning() {
+    this.noticeMsg?.hide();
+    this.noticeMsg = null;
+  }
+
   async onunload() {
     this.statusBar.remove();
+    this.clearTemporaryReveal();
+    this.hideIdleWarning();
+    Array.from(this.windowStyleEls.keys()).forEach((doc) => this.removeWindowStyle(doc));
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      leaf.view.containerEl.removeClass(CssClass.IsMdView, CssClass.IsNonMdView, CssClass.IsMdViewHeadlinesOnly, CssClass.PrivacyGlassesReveal);
+    });
+    this.surfaceGuard.restoreGraphLabels();
+    this.titleGuard.restore();
+    restoreObfuscation();
     await this.saveSettings();
   }
 
   async loadSettings() {
-
-    this.settings = Object.assign(DEFAULT_SETTINGS, await this.loadData());
+    const data: (Partial<PrivacyGlassesSettings> & LegacySettings) | null = await this.loadData();
+    // the legacy fields are only read for the migration, they are not kept in the settings
+    const { privateDirs, privateNoteMarker, ...saved } = data ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, saved);
+    if (!data?.rules) {
+      this.settings.rules = data
+        ? rulesFromLegacySettings(privateDirs, privateNoteMarker)
+        : DEFAULT_SETTINGS.rules.map((r) => ({ ...r }));
+    }
+    // the default lists must not be shared with `DEFAULT_SETTINGS`
+    if (!data?.profiles) {
+      this.settings.profiles = [];
+    }
+    if (!data?.schedule) {
+      this.settings.schedule = [];
+    }
   }
 
   async saveSettings() {
@@ -206,55 +581,118 @@ export default class PrivacyGlassesPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
-  shouldRevealLeaf(view: View) {
-    var _a;
-    if (this.currentLevel === Level.RevealAll) {
-      return true;
+  // the per-note level in frontmatter wins over the rules: a public note is never private, a hidden or
+  // headlines-only one always is
+  getPrivacyDecision(file: TAbstractFile): PrivacyDecision {
+    const noteLevel = file instanceof TFile ? noteLevelOf(this.app, file, this.settings.levelProperty) : null;
+    if (noteLevel) {
+      return { isPrivate: noteLevel !== NoteLevel.Public, rule: null };
     }
+    return evaluatePrivacy(this.app, file, this.settings.rules);
+  }
 
-    if (this.currentLevel === Level.HideAll ||
-      this.currentLevel === Level.RevealHeadlines) {
+  isPrivateFile(file: TAbstractFile) {
+    return this.getPrivacyDecision(file).isPrivate;
+  }
+
+  // revealing a pane out of "Hide all" is as much a way out as changing the level, so it is locked the same way
+  async revealLeafTemporarily(leaf: WorkspaceLeaf) {
+    if (this.lock.isRequired(this.currentLevel, Level.RevealAll) && !(await this.lock.unlock())) {
       return false;
     }
+    this.clearTemporaryReveal();
+    this.temporaryReveal = leaf;
+    this.temporaryRevealUntil = Date.now() + this.settings.temporaryRevealSeconds * 1000;
+    if (leaf.view instanceof ItemView) {
+      this.temporaryRevealEl = leaf.view.addAction("eye-closed", "Hide pane again", () => {
+        this.endTemporaryReveal();
+      });
+      this.temporaryRevealEl.addClass("privacy-glasses-reveal-countdown");
+    }
+    this.checkTemporaryReveal();
+    this.updateLeavesStyle();
+    return true;
+  }
 
-    if (!isMarkdownFileInfoView(view)) {
-      return true;
+  // runs every second, counts down in the view header and hides the pane once the time is up
+  checkTemporaryReveal() {
+    if (!this.temporaryReveal) {
+      return;
     }
+    const remaining = Math.ceil((this.temporaryRevealUntil - Date.now()) / 1000);
+    if (remaining <= 0) {
+      this.endTemporaryReveal();
+      return;
+    }
+    this.temporaryRevealEl?.setAttribute("data-countdown", formatDuration(remaining));
+  }
 
-    if (!("editor" in view) || !("file" in view)) return false;
-    if (
-      view.editor &&
-      this.settings.privateNoteMarker &&
-      this.settings.privateNoteMarker !== ""
-    ) {
-      let tags = [];
-      // Get tags in the note body, if any
-      if ('tags' in this.app.metadataCache.getFileCache(view.file as TFile)) {
-        tags.push(...this.app.metadataCache.getFileCache(view.file as TFile).tags.filter(x => !!x.tag).map(x => x.tag));
-      }
-      // Get tags in properties, if any
-      if ('tags' in ((_a = this.app.metadataCache.getFileCache(view.file as TFile)) === null || _a === void 0 ? void 0 : _a.frontmatter)) {
-        tags.push(...this.app.metadataCache.getFileCache(view.file as TFile).frontmatter.tags.filter((x: string) => !!x));
+  endTemporaryReveal() {
+    this.clearTemporaryReveal();
+    this.updateLeavesStyle();
+  }
+
+  clearTemporaryReveal() {
+    this.temporaryReveal = null;
+    this.temporaryRevealEl?.remove();
+    this.temporaryRevealEl = null;
+  }
+
+  // the per-note level only applies when it is stricter than the global one
+  getLeafLevel(view: View) {
+    if (this.temporaryReveal && this.temporaryReveal.view === view) {
+      return Level.RevealAll;
+    }
+    const file = (view as FileView).file;
+    if (!isMarkdownFileInfoView(view) || !(file instanceof TFile)) {
+      return this.currentLevel;
+    }
+    const noteLevel = noteLevelOf(this.app, file, this.settings.levelProperty);
+    if (!noteLevel || levelStrictness(NOTE_LEVELS[noteLevel]) <= levelStrictness(this.currentLevel)) {
+      return this.currentLevel;
+    }
+    return NOTE_LEVELS[noteLevel];
+  }
+
+  async setNoteLevel(file: TFile, noteLevel: NoteLevel | null) {
+    const property = this.settings.levelProperty;
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      if (noteLevel) {
+        frontmatter[property] = noteLevel;
       }
-      if (tags && tags.length > 0) {
-        return !tags.includes(this.settings.privateNoteMarker);
+      else {
+        delete frontmatter[property];
       }
+    });
+  }
+
+  shouldRevealLeaf(view: View) {
+    const level = this.getLeafLevel(view);
+    if (level === Level.RevealAll) {
+      return true;
     }
 
-    if (
-      view.file &&
-      !this.settings.privateDirs.contains((view.file as TFile)?.parent?.path
-    )) {
+    if (level === Level.HideAll ||
+      level === Level.RevealHeadlines) {
+      return false;
+    }
+
+    if (!isMarkdownFileInfoView(view)) {
       return true;
     }
 
-    return false;
+    const file = (view as FileView).file;
+    if (!file) {
+      return false;
+    }
+
+    return !this.isPrivate(file);
   }
 
   updateLeafViewStyle(view: View) {
     const isMd = isMarkdownFileInfoView(view) && (view as MarkdownView)?.editor;
     view.containerEl.removeClass(CssClass.IsMdView, CssClass.IsNonMdView, CssClass.IsMdViewHeadlinesOnly);
-    if (isMd && this.currentLevel === Level.RevealHeadlines) {
+    if (isMd && this.getLeafLevel(view) === Level.RevealHeadlines) {
       view.containerEl.addClass(CssClass.IsMdViewHeadlinesOnly);
     }
     else if (isMd) {
@@ -271,101 +709,242 @@ export default class PrivacyGlassesPlugin extends Plugin {
     else {
       view.containerEl.removeClass(CssClass.PrivacyGlassesReveal);
     }
+    this.notifyLeafReveal(view, shouldReveal);
+  }
+
+  // only transitions are announced, styles are updated for every leaf far more often than anything changes
+  notifyLeafReveal(view: View, shouldReveal: boolean) {
+    const { leaf } = view;
+    const file = (view as FileView).file instanceof TFile ? (view as FileView).file : null;
+    const path = file ? file.path : "";
+    const previous = this.revealedLeaves.get(leaf);
+    if (shouldReveal && previous !== path) {
+      this.revealedLeaves.set(leaf, path);
+      this.events.trigger("leaf-reveal", leaf, file);
+    }
+    else if (!shouldReveal && previous !== undefined) {
+      this.revealedLeaves.delete(leaf);
+      this.events.trigger("leaf-hide", leaf, file);
+    }
   }
 
   updateLeavesAndGlobalReveals() {
     this.updateLeavesStyle();
     this.updateGlobalRevealStyle();
+    this.statusBarIndicator.update();
   }
 
   updateLeavesStyle() {
     this.app.workspace.iterateAllLeaves((leaf) => {
       this.updateLeafViewStyle(leaf.view);
     });
+    this.embedGuard.refresh();
+    this.surfaceGuard.update();
+    this.titleGuard.update();
+    refreshObfuscation(this);
+  }
+
+  // while locked, hovering or moving the caret would read out a hidden note line by line without the passphrase
+  revealsOnHover() {
+    return this.settings.hoverToReveal && !this.lock.isLocked;
+  }
+
+  revealsUnderCaret() {
+    return this.settings.revealUnderCaret && !this.lock.isLocked;
   }
 
   updateGlobalRevealStyle() {
-    this.removeAllClasses();
-    this.setClassToDocumentBody(this.currentLevel);
-    if (this.settings.hoverToReveal) {
-      document.body.classList.add(CssClass.RevealOnHover);
-    }
-    if (this.settings.revealUnderCaret) {
-      document.body.classList.add(CssClass.RevealUnderCaret);
-    }
+    this.windowStyleEls.forEach((els, doc) => {
+      this.removeAllClasses(doc.body);
+      this.setClassToDocumentBody(doc.body, this.currentLevel);
+      if (this.revealsOnHover()) {
+        doc.body.classList.add(CssClass.RevealOnHover);
+      }
+      if (this.revealsUnderCaret()) {
+        doc.body.classList.add(CssClass.RevealUnderCaret);
+      }
+    });
   }
 
-  removeAllClasses() {
-    document.body.removeClass(CssClass.BlurAll, CssClass.RevealOnHover, CssClass.RevealAll, CssClass.RevealUnderCaret, CssClass.RevealHeadlines);
+  removeAllClasses(body: HTMLElement) {
+    body.removeClass(CssClass.BlurAll, CssClass.RevealOnHover, CssClass.RevealAll, CssClass.RevealUnderCaret, CssClass.RevealHeadlines);
   }
 
-  setClassToDocumentBody(currentLevel: Level) {
+  setClassToDocumentBody(body: HTMLElement, currentLevel: Level) {
     switch (currentLevel) {
       case Level.HideAll:
-        document.body.classList.add(CssClass.BlurAll);
+        body.classList.add(CssClass.BlurAll);
         break;
       case Level.RevealAll:
-        document.body.classList.add(CssClass.RevealAll);
+        body.classList.add(CssClass.RevealAll);
         break;
       case Level.RevealHeadlines:
-        document.body.classList.add(CssClass.RevealHeadlines);
+        body.classList.add(CssClass.RevealHeadlines);
         break;
     }
   }
 
-  addBlurLevelEl(doc: Document) {
-    this.blurLevelStyleEl = doc.createElement("style");
-    this.blurLevelStyleEl.id = "privacyGlassesBlurLevel";
-    doc.head.appendChild(this.blurLevelStyleEl);
+  addWindowStyleEls(doc: Document) {
+    if (this.windowStyleEls.has(doc)) {
+      return;
+    }
+    const blurLevelStyleEl = doc.createElement("style");
+    blurLevelStyleEl.id = "privacyGlassesBlurLevel";
+    doc.head.appendChild(blurLevelStyleEl);
+    const privateDirsStyleEl = doc.createElement("style");
+    privateDirsStyleEl.id = "privacyGlassesDirBlur";
+    privateDirsStyleEl.textContent = this.privateDirsCss;
+    doc.head.appendChild(privateDirsStyleEl);
+    this.windowStyleEls.set(doc, { blurLevelStyleEl, privateDirsStyleEl });
     this.updateBlurLevelEl();
   }
 
-  updateBlurLevelEl() {
-    if (!this.blurLevelStyleEl) {
+  removeWindowStyle(doc: Document) {
+    const els = this.windowStyleEls.get(doc);
+    if (!els) {
       return;
     }
-    this.blurLevelStyleEl.textContent = `body {--blurLevel:${this.settings.blurLevel}em};`;
+    els.blurLevelStyleEl.remove();
+    els.privateDirsStyleEl.remove();
+    this.removeAllClasses(doc.body);
+    this.windowStyleEls.delete(doc);
+    this.embedGuard.unobserve(doc);
+    this.surfaceGuard.unobserve(doc);
+    this.titleGuard.unobserve(doc);
+  }
+
+  updateBlurLevelEl() {
+    const css = `body {--blurLevel:${this.settings.blurLevel}em};`
+      + inlinePrivateCalloutCss(this.settings.inlinePrivateMarker)
+      + headlinesCss(headlinesOptionsOf(this.settings));
+    this.windowStyleEls.forEach((els) => {
+      els.blurLevelStyleEl.textContent = css;
+    });
+  }
+
+  updatePrivateDirsEl() {
+    this.privateDirsCss = this.buildPrivateDirsCss();
+    this.windowStyleEls.forEach((els) => {
+      els.privateDirsStyleEl.textContent = this.privateDirsCss;
+    });
   }
 
-  updatePrivateDirsEl(doc?: Document) {
-    if (doc && !this.privateDirsStyleEl) {
-      this.privateDirsStyleEl = doc.createElement("style");
-      this.privateDirsStyleEl.id = "privacyGlassesDirBlur";
-      doc.head.appendChild(this.privateDirsStyleEl);
+  buildPrivateDirsCss() {
+    // tag and property rules can't be expressed as path prefixes, so every private file and folder is listed
+    const paths = this.app.vault.getAllLoadedFiles()
+      .filter((f) => f.parent !== null && this.isPrivateFile(f))
+      .map((f) => `[data-path="${f.path.replace(/["\\]/g, "\\$&")}"]`);
+    if (paths.length === 0) {
+      return "";
     }
-    const dirs = this.settings.privateDirs.split(",");
-    this.privateDirsStyleEl.textContent = dirs
-      .map((d) => `
+    const selector = `:is(.nav-folder-title, .nav-file-title):is(${paths.join(", ")})`;
+    return `
 
-          :is(.nav-folder-title, .nav-file-title)[data-path^=${d}] {filter: blur(calc(var(--blurLevel) * 1))}
+          ${selector} {filter: blur(calc(var(--blurLevel) * 1))}
 
-          :is(.nav-folder-title, .nav-file-title)[data-path^=${d}]:hover {filter: unset}
+          ${selector}:hover {filter: unset}
 
-          .privacy-glasses-reveal-all :is(.nav-folder-title, .nav-file-title)[data-path^=${d}] {filter: unset}
+          .privacy-glasses-reveal-all ${selector} {filter: unset}
 
-          `)
-      .join("");
+          `;
   }
 }
 
 
-interface PrivacyGlassesSettings {
-  blurOnStartup: Level;
+// settings of older versions that were replaced by the privacy rules
+interface LegacySettings {
+  privateDirs?: string;
+  privateNoteMarker?: string;
+}
+
+interface WindowStyleEls {
+  blurLevelStyleEl: HTMLStyleElement;
+  privateDirsStyleEl: HTMLStyleElement;
+}
+
+export interface PrivacyGlassesSettings {
   blurLevel: number;
   blurOnIdleTimeoutSeconds: number;
   hoverToReveal: boolean;
   revealUnderCaret: boolean;
-  privateDirs: string;
-  privateNoteMarker: string;
+  rules: PrivacyRule[];
+  inlinePrivateMarker: string;
+  // frontmatter property holding the per-note level, see `NoteLevel`
+  levelProperty: string;
+  temporaryRevealSeconds: number;
+  // level applied by the idle timeout, and seconds before it during which a warning is shown
+  idleLevel: Level;
+  idleWarningSeconds: number;
+  // levels applied when the app loses focus and when it is hidden or minimized, "" turns the trigger off
+  windowBlurLevel: Level | "";
+  hiddenLevel: Level | "";
+  editObfuscation: ObfuscationMethod;
+  previewObfuscation: ObfuscationMethod;
+  clipboardGuard: ClipboardGuardMode;
+  // what stays readable in "Reveal headlines only": headings up to this depth, task checkboxes and list markers
+  headlinesDepth: number;
+  headlinesTasks: boolean;
+  headlinesLists: boolean;
+  // pbkdf2 hash and salt of the lock passphrase, both empty while the lock is off
+  lockHash: string;
+  lockSalt: string;
+  // level applied when Obsidian starts without a startup profile
+  blurOnStartup: Level;
+  profiles: PrivacyProfile[];
+  // id of the profile applied when Obsidian starts, "" for none
+  startupProfile: string;
+  schedule: ScheduleRule[];
+  // level applied when no schedule rule is active, "" keeps the current level
+  scheduleFallbackLevel: Level | "";
+  // the reveal log keeps entries for this many days and at most this many entries, 0 for no limit
+  revealLogEnabled: boolean;
+  revealLogRetentionDays: number;
+  revealLogMaxEntries: number;
 }
 const DEFAULT_SETTINGS: PrivacyGlassesSettings = {
-  blurOnStartup: Level.HidePrivate,
   blurLevel: 0.3,
   blurOnIdleTimeoutSeconds: -1,
   hoverToReveal: true,
   revealUnderCaret: false,
-  privateDirs: "",
-  privateNoteMarker: "#private",
+  rules: [
+    { effect: RuleEffect.Include, match: RuleMatch.Tag, value: "#private" },
+  ],
+  inlinePrivateMarker: "private",
+  levelProperty: "privacy",
+  temporaryRevealSeconds: 60,
+  idleLevel: Level.HideAll,
+  idleWarningSeconds: 10,
+  windowBlurLevel: "",
+  hiddenLevel: "",
+  editObfuscation: ObfuscationMethod.Blur,
+  previewObfuscation: ObfuscationMethod.Blur,
+  clipboardGuard: ClipboardGuardMode.Off,
+  headlinesDepth: MAX_HEADING_DEPTH,
+  headlinesTasks: false,
+  headlinesLists: false,
+  lockHash: "",
+  lockSalt: "",
+  blurOnStartup: Level.HidePrivate,
+  profiles: [],
+  startupProfile: "",
+  schedule: [],
+  scheduleFallbackLevel: "",
+  revealLogEnabled: false,
+  revealLogRetentionDays: 90,
+  revealLogMaxEntries: 10000,
+};
+
+const NOTE_LEVELS: Record<NoteLevel, Level> = {
+  [NoteLevel.Hidden]: Level.HideAll,
+  [NoteLevel.Headlines]: Level.RevealHeadlines,
+  [NoteLevel.Public]: Level.RevealAll,
+};
+
+const RULE_PLACEHOLDERS: Record<RuleMatch, string> = {
+  [RuleMatch.Folder]: "finance/**",
+  [RuleMatch.Tag]: "#private, #journal",
+  [RuleMatch.Property]: "private: true",
+  [RuleMatch.Filename]: "*secret*",
 };
 
 class privacyGlassesSettingTab extends PluginSettingTab {
@@ -395,27 +974,34 @@ class privacyGlassesSettingTab extends PluginSettingTab {
     });
 
     new Setting(containerEl)
-      .setName("Activate Privacy Glasses on startup")
-      .setDesc("Indicates whether the plugin is automatically activated when starting Obsidian.")
-      .addDropdown((toggle) => {
-        toggle.addOptions({
-          "hide-all": "Hide all",
-          "hide-private": "Hide private (default)",
-          "reveal-all": "Reveal all",
-          "reveal-headlines": "Reveal headlines only"
-        });
-        toggle.setValue(this.plugin.settings.blurOnStartup);
-        toggle.onChange((value) => async function() {
-          this.plugin.settings.blurOnStartup = value;
+      .setName("Startup profile")
+      .setDesc("The profile applied when starting Obsidian. Without one, the startup level below is applied.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "None");
+        this.plugin.settings.profiles.forEach((profile) => dropdown.addOption(profile.id, profile.name));
+        dropdown.setValue(this.plugin.settings.startupProfile);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.startupProfile = value;
           await this.plugin.saveSettings();
-        })
+        });
       });
 
+    new Setting(containerEl)
+      .setName("Startup level")
+      .setDesc("The level applied when starting Obsidian without a startup profile.")
+      .addDropdown((dropdown) => dropdown
+        .addOptions(LEVEL_NAMES)
+        .setValue(this.plugin.settings.blurOnStartup)
+        .onChange(async (value) => {
+          this.plugin.settings.blurOnStartup = value as Level;
+          await this.plugin.saveSettings();
+        }));
+
 
     var sliderEl = new Setting(containerEl);
     let sliderElDesc = 'Higher is blurrier. Default=60, current=';
     sliderEl 
-      .setName('Blur Level (only affects elements for which "Blurry Text" is selected below)')
+      .setName('Blur Level (only affects elements for which "Blurry text" is selected below)')
       .setDesc(sliderElDesc + Math.round(this.plugin.settings.blurLevel*100)) 
                   // ^ need rounding to not show values like '55.00000000000001'
       .addSlider(slider => slider
@@ -429,42 +1015,508 @@ class privacyGlassesSettingTab extends PluginSettingTab {
         })
       );
 
+    const obfuscationOptions: Record<ObfuscationMethod, string> = {
+      [ObfuscationMethod.Blur]: "Blurry text",
+      [ObfuscationMethod.Blocks]: "Solid blocks",
+      [ObfuscationMethod.Glyphs]: "Circles",
+      [ObfuscationMethod.Scramble]: "Scrambled text",
+    };
+
     new Setting(containerEl)
       .setName('Obfuscation method for Edit Mode')
-      .setDesc('How to obfuscate the document\'s text in Edit Mode')
+      .setDesc('How to obfuscate the document\'s text in Edit Mode. All methods but blurry text replace the characters on screen, so the real text is never painted while hidden. The inline title and properties are not replaced, they are blurred with every method.')
+      .addDropdown((dropdown) => dropdown
+        .addOptions(obfuscationOptions)
+        .setValue(this.plugin.settings.editObfuscation)
+        .onChange(async (value) => {
+          this.plugin.settings.editObfuscation = value as ObfuscationMethod;
+          await this.plugin.saveSettings();
+          refreshObfuscation(this.plugin);
+        }));
+
+    new Setting(containerEl)
+      .setName('Obfuscation method for Preview Mode')
+      .setDesc('How to obfuscate the document\'s text in Reading view. The inline title and properties are not replaced, they are blurred with every method.')
+      .addDropdown((dropdown) => dropdown
+        .addOptions(obfuscationOptions)
+        .setValue(this.plugin.settings.previewObfuscation)
+        .onChange(async (value) => {
+          this.plugin.settings.previewObfuscation = value as ObfuscationMethod;
+          await this.plugin.saveSettings();
+          rerenderPreviews(this.app.workspace);
+        }));
+
+    const depthOptions: Record<string, string> = {};
+    for (let depth = 1; depth <= MAX_HEADING_DEPTH; depth++) {
+      depthOptions[String(depth)] = depth === 1 ? "Level 1 only" : `Levels 1 to ${depth}`;
+    }
+    new Setting(containerEl)
+      .setName('Heading depth in "Reveal headlines only"')
+      .setDesc('Deeper headings stay hidden along with the body text.')
+      .addDropdown((dropdown) => dropdown
+        .addOptions(depthOptions)
+        .setValue(String(this.plugin.settings.headlinesDepth))
+        .onChange(async (value) => {
+          this.plugin.settings.headlinesDepth = parseInt(value, 10);
+          await this.plugin.saveSettings();
+          this.plugin.updateBlurLevelEl();
+          this.plugin.updateLeavesStyle();
+        }));
+
+    new Setting(containerEl)
+      .setName('Task checkboxes in "Reveal headlines only"')
+      .setDesc('Keep checkboxes readable, the task text stays hidden.')
+      .addToggle((toggle) => toggle
+        .setValue(this.plugin.settings.headlinesTasks)
+        .onChange(async (value) => {
+          this.plugin.settings.headlinesTasks = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateBlurLevelEl();
+          this.plugin.updateLeavesStyle();
+        }));
+
+    new Setting(containerEl)
+      .setName('List structure in "Reveal headlines only"')
+      .setDesc('Keep bullets, numbers and indentation of lists readable, the item text stays hidden.')
+      .addToggle((toggle) => toggle
+        .setValue(this.plugin.settings.headlinesLists)
+        .onChange(async (value) => {
+          this.plugin.settings.headlinesLists = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateBlurLevelEl();
+          this.plugin.updateLeavesStyle();
+        }));
+
+    new Setting(containerEl)
+      .setName('Copy and drag from hidden content')
+      .setDesc('What happens when text is copied, cut or dragged out of a hidden pane or private embed. With "Hide all" active, copying and cutting is guarded everywhere.')
+      .addDropdown((dropdown) => dropdown
+        .addOptions({
+          [ClipboardGuardMode.Off]: "Allow",
+          [ClipboardGuardMode.Block]: "Block",
+          [ClipboardGuardMode.Placeholder]: "Replace with a placeholder",
+        })
+        .setValue(this.plugin.settings.clipboardGuard)
+        .onChange(async (value) => {
+          this.plugin.settings.clipboardGuard = value as ClipboardGuardMode;
+          await this.plugin.saveSettings();
+        }));
+
+    this.displayRules(containerEl);
+
+    new Setting(containerEl)
+      .setName('Per-note level property')
+      .setDesc('Frontmatter property setting a note\'s own level: "hidden" or "headlines" apply whenever they are stricter than the current level and always make the note private, "public" exempts the note from the privacy rules.')
       .addText((text) => text
-        .setPlaceholder("finance,therapy")
-        .setValue(this.plugin.settings.privateDirs)
-        .onChange((value) => async function() {
-          this.plugin.settings.privateDirs = value;
+        .setPlaceholder("privacy")
+        .setValue(this.plugin.settings.levelProperty)
+        .onChange(async (value) => {
+          this.plugin.settings.levelProperty = value.trim();
           await this.plugin.saveSettings();
           this.plugin.updateLeavesAndGlobalReveals();
           this.plugin.updatePrivateDirsEl();
-        })
-      );
-      // .addDropdown(dropdown => dropdown
-      //   .addOption('','[Off]')
-      //   .addOption('blurEdit','Blurry Text')
-      //   .addOption('blockEdit','Solid Blocks')
-      //   .addOption('circlesEdit','Circles ⚠️')
-      //   .setValue(this.plugin.settings.editBlurMethod)
-      // .onChange(async (value) => {
-      //   this.plugin.settings.editBlurMethod = value;
-      //   await this.plugin.refresh(true);
-      // }));
+        }));
 
     new Setting(containerEl)
-      .setName('Obfuscation method for Preview Mode')
-      .setDesc('How to obfuscate the document\'s text in Preview Mode')
+      .setName('Temporary pane reveal (seconds)')
+      .setDesc('How long "Reveal pane" keeps a single pane revealed. The pane is hidden earlier when it loses focus or shows another file.')
       .addText((text) => text
-        .setPlaceholder("#private")
-        .setValue(this.plugin.settings.privateNoteMarker)
-        .onChange((value) => async function() {
-          this.plugin.settings.privateNoteMarker = value;
+        .setPlaceholder("60")
+        .setValue(String(this.plugin.settings.temporaryRevealSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (isNaN(seconds) || seconds <= 0) {
+            return;
+          }
+          this.plugin.settings.temporaryRevealSeconds = seconds;
+          await this.plugin.saveSettings();
+        }));
+
+    containerEl.createEl('h4', { text: 'Auto-hide' });
+
+    new Setting(containerEl)
+      .setName('Idle timeout (seconds)')
+      .setDesc('Hide content after this long without keyboard, mouse or scroll activity. Use -1 to turn it off.')
+      .addText((text) => text
+        .setPlaceholder("-1")
+        .setValue(String(this.plugin.settings.blurOnIdleTimeoutSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (isNaN(seconds)) {
+            return;
+          }
+          this.plugin.settings.blurOnIdleTimeoutSeconds = seconds;
           await this.plugin.saveSettings();
-          this.plugin.updateLeavesStyle();
         }));
 
+    new Setting(containerEl)
+      .setName('Level when idle')
+      .addDropdown((dropdown) => dropdown
+        .addOptions(LEVEL_NAMES)
+        .setValue(this.plugin.settings.idleLevel)
+        .onChange(async (value) => {
+          this.plugin.settings.idleLevel = value as Level;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Idle warning (seconds)')
+      .setDesc('Show a countdown notice this long before the idle timeout hides content. Use 0 to turn it off.')
+      .addText((text) => text
+        .setPlaceholder("10")
+        .setValue(String(this.plugin.settings.idleWarningSeconds))
+        .onChange(async (value) => {
+          const seconds = parseInt(value, 10);
+          if (isNaN(seconds) || seconds < 0) {
+            return;
+          }
+          this.plugin.settings.idleWarningSeconds = seconds;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Level when Obsidian loses focus')
+      .addDropdown((dropdown) => dropdown
+        .addOption("", "Off")
+        .addOptions(LEVEL_NAMES)
+        .setValue(this.plugin.settings.windowBlurLevel)
+        .onChange(async (value) => {
+          this.plugin.settings.windowBlurLevel = value as Level | "";
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Level when Obsidian is hidden or minimized')
+      .addDropdown((dropdown) => dropdown
+        .addOption("", "Off")
+        .addOptions(LEVEL_NAMES)
+        .setValue(this.plugin.settings.hiddenLevel)
+        .onChange(async (value) => {
+          this.plugin.settings.hiddenLevel = value as Level | "";
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Passphrase lock')
+      .setDesc(this.plugin.lock.isEnabled
+        ? 'Leaving "Hide all" asks for the passphrase, and hovering or the caret reveal nothing until then. Only a salted hash of it is stored.'
+        : 'Set a passphrase to require it whenever "Hide all" is left.')
+      .addButton((button) => button
+        .setButtonText(this.plugin.lock.isEnabled ? "Change passphrase" : "Set passphrase")
+        .onClick(() => {
+          new SetPassphraseModal(this.app, this.plugin.lock, () => {
+            // hover and caret reveals depend on whether the lock is set
+            this.plugin.updateLeavesAndGlobalReveals();
+            this.display();
+          }).open();
+        }));
+
+    new Setting(containerEl)
+      .setName('Inline private marker')
+      .setDesc('Text wrapped in %%marker%% ... %%/marker%% and callouts of type [!marker] stay hidden even in revealed notes and in "Reveal all", until hovered or under the caret')
+      .addText((text) => text
+        .setPlaceholder("private")
+        .setValue(this.plugin.settings.inlinePrivateMarker)
+        .onChange(async (value) => {
+          this.plugin.settings.inlinePrivateMarker = value.trim();
+          await this.plugin.saveSettings();
+          this.plugin.app.workspace.updateOptions();
+          this.plugin.updateBlurLevelEl();
+        }));
+
+    this.displaySchedule(containerEl);
+    this.displayRevealLog(containerEl);
+    this.displayProfiles(containerEl);
+  }
+
+  displayRevealLog(containerEl: HTMLElement) {
+    containerEl.createEl('h4', { text: 'Reveal log' });
+
+    new Setting(containerEl)
+      .setName('Keep a reveal log')
+      .setDesc('Record level changes with what caused them, and every time a pane revealed a private note, in a file in the plugin folder. Nothing leaves this device.')
+      .addToggle((toggle) => toggle
+        .setValue(this.plugin.settings.revealLogEnabled)
+        .onChange(async (value) => {
+          this.plugin.settings.revealLogEnabled = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton((button) => button
+        .setButtonText("Open log")
+        .onClick(() => {
+          this.plugin.openReportView(REVEAL_LOG_VIEW_TYPE);
+        }));
+
+    new Setting(containerEl)
+      .setName('Retention (days)')
+      .setDesc('Entries older than this are removed. Use 0 to keep them forever.')
+      .addText((text) => text
+        .setPlaceholder("90")
+        .setValue(String(this.plugin.settings.revealLogRetentionDays))
+        .onChange(async (value) => {
+          const days = parseInt(value, 10);
+          if (isNaN(days) || days < 0) {
+            return;
+          }
+          this.plugin.settings.revealLogRetentionDays = days;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Maximum entries')
+      .setDesc('The oldest entries are removed beyond this number. Use 0 for no limit.')
+      .addText((text) => text
+        .setPlaceholder("10000")
+        .setValue(String(this.plugin.settings.revealLogMaxEntries))
+        .onChange(async (value) => {
+          const entries = parseInt(value, 10);
+          if (isNaN(entries) || entries < 0) {
+            return;
+          }
+          this.plugin.settings.revealLogMaxEntries = entries;
+          await this.plugin.saveSettings();
+        }));
+  }
+
+  displaySchedule(containerEl: HTMLElement) {
+    containerEl.createEl('h4', { text: 'Schedule' });
+    containerEl.createEl('p', {
+      text: 'Switch levels by time of day and weekday. Rules are checked from top to bottom and the first active rule decides. Days are comma-separated names or ranges, e.g. "mon-fri" or "sat, sun", empty for every day. A rule with days that are not valid never applies. A rule ending before it starts runs past midnight. A level chosen by hand holds until the schedule reaches its next boundary.'
+    });
+
+    const schedule = this.plugin.settings.schedule;
+    // a changed schedule is applied right away instead of at its next boundary
+    const onScheduleChanged = async (redisplay: boolean) => {
+      this.plugin.scheduleSegment = null;
+      await this.plugin.saveSettings();
+      if (redisplay) {
+        this.display();
+      }
+    };
+
+    schedule.forEach((rule, index) => {
+      new Setting(containerEl)
+        .addText((text) => text
+          .setPlaceholder("mon-fri")
+          .setValue(rule.days)
+          .onChange(async (value) => {
+            rule.days = value;
+            await onScheduleChanged(false);
+          }))
+        .addText((text) => text
+          .setPlaceholder("09:00")
+          .setValue(rule.from)
+          .onChange(async (value) => {
+            rule.from = value.trim();
+            await onScheduleChanged(false);
+          }))
+        .addText((text) => text
+          .setPlaceholder("18:00")
+          .setValue(rule.to)
+          .onChange(async (value) => {
+            rule.to = value.trim();
+            await onScheduleChanged(false);
+          }))
+        .addDropdown((dropdown) => dropdown
+          .addOptions(LEVEL_NAMES)
+          .setValue(rule.level)
+          .onChange(async (value) => {
+            rule.level = value as Level;
+            await onScheduleChanged(false);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            if (index === 0) {
+              return;
+            }
+            [schedule[index - 1], schedule[index]] = [schedule[index], schedule[index - 1]];
+            await onScheduleChanged(true);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("trash")
+          .setTooltip("Delete schedule rule")
+          .onClick(async () => {
+            schedule.splice(index, 1);
+            await onScheduleChanged(true);
+          }));
+    });
+
+    new Setting(containerEl)
+      .setName('Otherwise')
+      .setDesc('Level applied when no schedule rule is active.')
+      .addDropdown((dropdown) => dropdown
+        .addOption("", "Keep the current level")
+        .addOptions(LEVEL_NAMES)
+        .setValue(this.plugin.settings.scheduleFallbackLevel)
+        .onChange(async (value) => {
+          this.plugin.settings.scheduleFallbackLevel = value as Level | "";
+          await onScheduleChanged(false);
+        }));
+
+    new Setting(containerEl)
+      .addButton((button) => button
+        .setButtonText("Add schedule rule")
+        .onClick(async () => {
+          schedule.push({ days: "mon-fri", from: "09:00", to: "18:00", level: Level.HidePrivate });
+          await onScheduleChanged(true);
+        }));
+  }
+
+  displayProfiles(containerEl: HTMLElement) {
+    containerEl.createEl('h4', { text: 'Profiles' });
+    containerEl.createEl('p', {
+      text: 'A profile stores a level together with all settings on this page except the passphrase, the schedule and the reveal log. Each profile gets its own command, which can be bound to a hotkey.'
+    });
+
+    const profiles = this.plugin.settings.profiles;
+    profiles.forEach((profile, index) => {
+      new Setting(containerEl)
+        .addText((text) => text
+          .setPlaceholder("Profile name")
+          .setValue(profile.name)
+          .onChange(async (value) => {
+            profile.name = value;
+            await this.plugin.saveSettings();
+            this.plugin.registerProfile(profile);
+          }))
+        .addDropdown((dropdown) => dropdown
+          .addOptions(LEVEL_NAMES)
+          .setValue(profile.level)
+          .onChange(async (value) => {
+            profile.level = value as Level;
+            await this.plugin.saveSettings();
+          }))
+        .addToggle((toggle) => toggle
+          .setTooltip("Show in ribbon")
+          .setValue(profile.showInRibbon)
+          .onChange(async (value) => {
+            profile.showInRibbon = value;
+            await this.plugin.saveSettings();
+            this.plugin.registerProfile(profile);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("save")
+          .setTooltip("Replace with the current settings")
+          .onClick(async () => {
+            profiles[index] = { ...createProfile(profile.name, profile.level, this.plugin.settings), id: profile.id, showInRibbon: profile.showInRibbon };
+            await this.plugin.saveSettings();
+            new Notice(`Profile "${profile.name}" updated`);
+            this.display();
+          }))
+        .addExtraButton((button) => button
+          .setIcon("trash")
+          .setTooltip("Delete profile")
+          .onClick(async () => {
+            profiles.splice(index, 1);
+            this.plugin.unregisterProfile(profile);
+            if (this.plugin.settings.startupProfile === profile.id) {
+              this.plugin.settings.startupProfile = "";
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton((button) => button
+        .setButtonText("Save current settings as profile")
+        .onClick(async () => {
+          const profile = createProfile(`Profile ${profiles.length + 1}`, this.plugin.currentLevel, this.plugin.settings);
+          profiles.push(profile);
+          this.plugin.registerProfile(profile);
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+  }
+
+  displayRules(containerEl: HTMLElement) {
+    containerEl.createEl('h4', { text: 'Privacy rules' });
+    containerEl.createEl('p', {
+      text: 'Rules are checked from top to bottom and the first matching rule decides whether a note is private. Folder rules accept globs (* within a folder name, ** across folders) and also cover all nested folders. Tag rules accept several comma-separated tags. Property rules take a frontmatter key, optionally with a value, e.g. "private: true".'
+    });
+
+    const rules = this.plugin.settings.rules;
+    const onRulesChanged = async (redisplay: boolean) => {
+      await this.plugin.saveSettings();
+      this.plugin.updateLeavesAndGlobalReveals();
+      this.plugin.updatePrivateDirsEl();
+      if (redisplay) {
+        this.display();
+      }
+    };
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .addDropdown((dropdown) => dropdown
+          .addOptions({
+            [RuleEffect.Include]: "Private",
+            [RuleEffect.Exclude]: "Not private",
+          })
+          .setValue(rule.effect)
+          .onChange(async (value) => {
+            rule.effect = value as RuleEffect;
+            await onRulesChanged(false);
+          }))
+        .addDropdown((dropdown) => dropdown
+          .addOptions({
+            [RuleMatch.Folder]: "Folder",
+            [RuleMatch.Tag]: "Tags",
+            [RuleMatch.Property]: "Property",
+            [RuleMatch.Filename]: "File name",
+          })
+          .setValue(rule.match)
+          .onChange(async (value) => {
+            rule.match = value as RuleMatch;
+            await onRulesChanged(false);
+          }))
+        .addText((text) => text
+          .setPlaceholder(RULE_PLACEHOLDERS[rule.match])
+          .setValue(rule.value)
+          .onChange(async (value) => {
+            rule.value = value;
+            await onRulesChanged(false);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            if (index === 0) {
+              return;
+            }
+            [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+            await onRulesChanged(true);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .setDisabled(index === rules.length - 1)
+          .onClick(async () => {
+            if (index === rules.length - 1) {
+              return;
+            }
+            [rules[index], rules[index + 1]] = [rules[index + 1], rules[index]];
+            await onRulesChanged(true);
+          }))
+        .addExtraButton((button) => button
+          .setIcon("trash")
+          .setTooltip("Delete rule")
+          .onClick(async () => {
+            rules.splice(index, 1);
+            await onRulesChanged(true);
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton((button) => button
+        .setButtonText("Add rule")
+        .onClick(async () => {
+          rules.push({ effect: RuleEffect.Include, match: RuleMatch.Folder, value: "" });
+          await onRulesChanged(true);
+        }));
   }
 }
 
@@ -0,0 +1,51 @@
+import { EventRef, TAbstractFile, TFile, WorkspaceLeaf } from 'obsidian';
+import { Level, LevelSource } from './constants';
+
+/** Callback of the "level-change" event. */
+export type LevelChangeCallback = (level: Level, previous: Level, source: LevelSource) => void;
+/** Callback of the "leaf-reveal" and "leaf-hide" events. */
+export type LeafRevealCallback = (leaf: WorkspaceLeaf, file: TFile | null) => void;
+
+/**
+ * Public API for other plugins, implemented by the plugin instance itself:
+ *
+ * ```ts
+ * const glasses = app.plugins.getPlugin("privacy-glasses") as PrivacyGlassesApi | undefined;
+ * if (glasses?.isPrivate(file)) { ... }
+ * ```
+ *
+ * The level values are the strings of `Level`, e.g. "hide-all" and "reveal-all".
+ */
+export interface PrivacyGlassesApi {
+  /**
+   * Whether the privacy rules treat the file as private. The per-note level property wins over the rules:
+   * notes marked "public" are never private, notes marked "hidden" or "headlines" always are.
+   * This is the same check that decides whether a pane is hidden in "Hide private".
+   */
+  isPrivate(file: TAbstractFile): boolean;
+
+  /** The level currently applied to the whole workspace. */
+  getLevel(): Level;
+
+  /**
+   * Switches the workspace to `level`. Resolves to false when the passphrase lock is enabled and
+   * the user didn't unlock, in which case the level is left unchanged.
+   */
+  setLevel(level: Level): Promise<boolean>;
+
+  /**
+   * Fired after the workspace level changed, with the new and the previous level and what changed it:
+   * "ribbon", "command", "status-bar", "startup", "idle", "focus", "hidden", "schedule" or "api".
+   */
+  on(name: "level-change", callback: LevelChangeCallback): EventRef;
+  /**
+   * Fired when a pane becomes readable, or a readable pane shows another file.
+   * `file` is null for panes that don't show a file.
+   */
+  on(name: "leaf-reveal", callback: LeafRevealCallback): EventRef;
+  /** Fired when a readable pane becomes hidden. */
+  on(name: "leaf-hide", callback: LeafRevealCallback): EventRef;
+
+  /** Unsubscribes a callback registered with `on`. */
+  offref(ref: EventRef): void;
+}
@@ -0,0 +1,195 @@
+import { App, ItemView, TFile, TFolder, WorkspaceLeaf, getLinkpath } from 'obsidian';
+import { CssClass } from './constants';
+import { RuleEffect, RuleMatch, describeDecision, describeRule, matchesRule } from './rules';
+import type PrivacyGlassesPlugin from '../main';
+
+export const AUDIT_VIEW_TYPE = "privacy-glasses-audit";
+
+interface AuditEntry {
+  title: string;
+  detail: string;
+  // private file names are blurred like anywhere else
+  privateTitle: boolean;
+  privateDetail: boolean;
+  onClick: () => void;
+}
+
+interface AuditSection {
+  name: string;
+  description: string;
+  entries: AuditEntry[];
+}
+
+// the settings modal is internal
+interface AppWithSetting extends App {
+  setting?: {
+    open(): void;
+    openTabById(id: string): void;
+  };
+}
+
+function openFile(app: App, file: TFile, line?: number) {
+  app.workspace.getLeaf(false).openFile(file, line === undefined ? {} : { eState: { line } });
+}
+
+function openSettings(plugin: PrivacyGlassesPlugin) {
+  const { setting } = plugin.app as AppWithSetting;
+  setting?.open();
+  setting?.openTabById(plugin.manifest.id);
+}
+
+// every private note, with the rule that made it private
+function privateNotes(plugin: PrivacyGlassesPlugin): AuditEntry[] {
+  return plugin.app.vault.getMarkdownFiles()
+    .map((file) => ({ file, decision: plugin.getPrivacyDecision(file) }))
+    .filter(({ decision }) => decision.isPrivate)
+    .map(({ file, decision }) => ({
+      title: file.path,
+      detail: describeDecision(decision, plugin.settings.levelProperty),
+      privateTitle: true,
+      privateDetail: false,
+      onClick: () => openFile(plugin.app, file),
+    }));
+}
+
+// links and embeds render or name a private note inside a note that is shown in "Hide private"
+function leakingLinks(plugin: PrivacyGlassesPlugin): AuditEntry[] {
+  const { app } = plugin;
+  const entries: AuditEntry[] = [];
+  app.vault.getMarkdownFiles()
+    .filter((file) => !plugin.isPrivateFile(file))
+    .forEach((file) => {
+      const cache = app.metadataCache.getFileCache(file);
+      const refs = [
+        ...(cache?.links ?? []).map((ref) => ({ ref, kind: "links to" })),
+        ...(cache?.embeds ?? []).map((ref) => ({ ref, kind: "embeds" })),
+      ];
+      refs.forEach(({ ref, kind }) => {
+        const target = app.metadataCache.getFirstLinkpathDest(getLinkpath(ref.link), file.path);
+        if (!target || !plugin.isPrivateFile(target)) {
+          return;
+        }
+        const line = ref.position.start.line;
+        entries.push({
+          title: `${file.path}:${line + 1}`,
+          detail: `${kind} ${target.path}`,
+          privateTitle: false,
+          privateDetail: true,
+          onClick: () => openFile(app, file, line),
+        });
+      });
+    });
+  return entries;
+}
+
+// notes carrying a private tag that an earlier rule or their own level keeps public
+function strayTags(plugin: PrivacyGlassesPlugin): AuditEntry[] {
+  const { app, settings } = plugin;
+  const tagRules = settings.rules.filter((r) => r.effect === RuleEffect.Include && r.match === RuleMatch.Tag);
+  const entries: AuditEntry[] = [];
+  app.vault.getMarkdownFiles().forEach((file) => {
+    const decision = plugin.getPrivacyDecision(file);
+    if (decision.isPrivate) {
+      return;
+    }
+    const tagRule = tagRules.find((r) => matchesRule(app, file, r));
+    if (!tagRule) {
+      return;
+    }
+    entries.push({
+      title: file.path,
+      detail: `tagged ${tagRule.value}, kept public by ${describeDecision(decision, settings.levelProperty)}`,
+      privateTitle: false,
+      privateDetail: false,
+      onClick: () => openFile(app, file),
+    });
+  });
+  return entries;
+}
+
+// folder rules, including the private folders of older versions, whose folder was renamed or deleted
+function unmatchedFolderRules(plugin: PrivacyGlassesPlugin): AuditEntry[] {
+  const { app } = plugin;
+  const folders = app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder && !f.isRoot());
+  return plugin.settings.rules
+    .filter((r) => r.match === RuleMatch.Folder && r.value.trim() !== "")
+    .filter((r) => !folders.some((f) => matchesRule(app, f, r)))
+    .map((r) => ({
+      title: describeRule(r),
+      detail: "matches no folder",
+      privateTitle: false,
+      privateDetail: false,
+      onClick: () => openSettings(plugin),
+    }));
+}
+
+export class AuditView extends ItemView {
+  plugin: PrivacyGlassesPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: PrivacyGlassesPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.addAction("refresh-cw", "Refresh", () => this.render());
+  }
+
+  getViewType() {
+    return AUDIT_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Privacy audit";
+  }
+
+  getIcon() {
+    return "eye-glasses";
+  }
+
+  async onOpen() {
+    this.render();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  render() {
+    const sections: AuditSection[] = [
+      {
+        name: "Private notes",
+        description: "Notes hidden in \"Hide private\", and the rule or property that made them private.",
+        entries: privateNotes(this.plugin),
+      },
+      {
+        name: "Links to private notes",
+        description: "Public notes that link to or embed a private note.",
+        entries: leakingLinks(this.plugin),
+      },
+      {
+        name: "Private tags in public notes",
+        description: "Notes with a private tag that are not treated as private.",
+        entries: strayTags(this.plugin),
+      },
+      {
+        name: "Folder rules without a folder",
+        description: "Folder rules that match no folder in the vault.",
+        entries: unmatchedFolderRules(this.plugin),
+      },
+    ];
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("privacy-glasses-audit");
+    sections.forEach((section) => {
+      contentEl.createEl("h4", { text: `${section.name} (${section.entries.length})` });
+      contentEl.createEl("p", { cls: "privacy-glasses-audit-description", text: section.description });
+      section.entries.forEach((entry) => {
+        const item = contentEl.createDiv({ cls: "privacy-glasses-audit-item" });
+        item.createDiv({ cls: "privacy-glasses-audit-title", text: entry.title })
+          .toggleClass(CssClass.PrivateSurface, entry.privateTitle);
+        item.createDiv({ cls: "privacy-glasses-audit-detail", text: entry.detail })
+          .toggleClass(CssClass.PrivateSurface, entry.privateDetail);
+        item.onClickEvent(entry.onClick);
+      });
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { Notice } from 'obsidian';
+import { ClipboardGuardMode, CssClass, Level } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+
+const PLACEHOLDER = "[redacted]";
+// text is only dragged out of note content, dragging files in the explorer or tab headers stays possible
+const CONTENT_SELECTOR = ".markdown-source-view, .markdown-preview-view";
+
+// blurring only changes what is painted, so copy, cut and drag are intercepted before the editor hands out the plaintext
+export class ClipboardGuard {
+  plugin: PrivacyGlassesPlugin;
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  // listens while capturing, so the handlers of the editor and reading view never see a blocked event
+  register(win: Window) {
+    const doc = win.document;
+    this.plugin.registerDomEvent(doc, "copy", (e) => this.onClipboard(e), { capture: true });
+    this.plugin.registerDomEvent(doc, "cut", (e) => this.onClipboard(e), { capture: true });
+    this.plugin.registerDomEvent(doc, "dragstart", (e) => this.onDragStart(e), { capture: true });
+  }
+
+  get mode() {
+    return this.plugin.settings.clipboardGuard;
+  }
+
+  onClipboard(e: ClipboardEvent) {
+    if (this.mode === ClipboardGuardMode.Off) {
+      return;
+    }
+    if (this.plugin.currentLevel !== Level.HideAll && !this.isHidden(this.sourceOf(e))) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    if (this.mode === ClipboardGuardMode.Placeholder) {
+      e.clipboardData?.setData("text/plain", PLACEHOLDER);
+    }
+    this.notify(e.type === "cut" ? "cutting" : "copying");
+  }
+
+  onDragStart(e: DragEvent) {
+    if (this.mode === ClipboardGuardMode.Off) {
+      return;
+    }
+    const el = this.elementOf(e.target as Node);
+    if (!el?.closest(CONTENT_SELECTOR) || !this.isHidden(el)) {
+      return;
+    }
+    if (this.mode === ClipboardGuardMode.Placeholder && e.dataTransfer) {
+      e.stopPropagation();
+      e.dataTransfer.clearData();
+      e.dataTransfer.setData("text/plain", PLACEHOLDER);
+    }
+    else {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+    this.notify("dragging");
+  }
+
+  // inputs keep their own selection, everywhere else the copied text is whatever the document selection covers
+  sourceOf(e: ClipboardEvent) {
+    const target = this.elementOf(e.target as Node);
+    if (target?.matches("input, textarea")) {
+      return target;
+    }
+    const selection = target?.doc.getSelection();
+    return this.elementOf(selection?.anchorNode) ?? target;
+  }
+
+  elementOf(node: Node | null | undefined): HTMLElement | null {
+    if (!node) {
+      return null;
+    }
+    return (node.nodeType === Node.ELEMENT_NODE ? node : node.parentElement) as HTMLElement | null;
+  }
+
+  // hidden are leaves `shouldRevealLeaf` doesn't reveal, and private embeds or popovers anywhere
+  isHidden(el: HTMLElement | null) {
+    if (!el) {
+      return false;
+    }
+    if (el.closest(`.${CssClass.PrivateEmbed}`)) {
+      return true;
+    }
+    let hidden = false;
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+      if (!hidden && leaf.view.containerEl.contains(el)) {
+        hidden = !this.plugin.shouldRevealLeaf(leaf.view);
+      }
+    });
+    return hidden;
+  }
+
+  notify(action: string) {
+    const reason = this.plugin.currentLevel === Level.HideAll ? "\"Hide all\" is active" : "this content is hidden";
+    const result = this.mode === ClipboardGuardMode.Placeholder ? "only gives a placeholder" : "is blocked";
+    new Notice(`Privacy Glasses: ${action} ${result} because ${reason}`);
+  }
+}
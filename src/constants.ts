@@ -0,0 +1,61 @@
+export enum Level {
+  "HideAll" = "hide-all",
+  "HidePrivate" = "hide-private",
+  "RevealAll" = "reveal-all",
+  "RevealHeadlines" = "reveal-headlines",
+}
+
+export enum ObfuscationMethod {
+  "Blur" = "blur",
+  "Blocks" = "blocks",
+  "Glyphs" = "glyphs",
+  "Scramble" = "scramble",
+}
+
+// what changed the level, passed along with level changes and recorded in the reveal log
+export enum LevelSource {
+  "Ribbon" = "ribbon",
+  "Command" = "command",
+  "StatusBar" = "status-bar",
+  "Startup" = "startup",
+  "Idle" = "idle",
+  "Focus" = "focus",
+  "Hidden" = "hidden",
+  "Schedule" = "schedule",
+  "Api" = "api",
+}
+
+export enum ClipboardGuardMode {
+  "Off" = "off",
+  "Block" = "block",
+  "Placeholder" = "placeholder",
+}
+
+export enum CssClass {
+  "BlurAll" = "privacy-glasses-blur-all",
+  "RevealOnHover" = "privacy-glasses-reveal-on-hover",
+  "RevealAll" = "privacy-glasses-reveal-all",
+  "RevealUnderCaret" = "privacy-glasses-reveal-under-caret",
+  "RevealHeadlines" = "privacy-glasses-reveal-headlines",
+  "Reveal" = "privacy-glasses-reveal",
+  "IsMdView" = "is-md-view",
+  "IsNonMdView" = "is-non-md-view",
+  "IsMdViewHeadlinesOnly" = "is-md-view-headlines-only",
+  "PrivacyGlassesReveal" = "privacy-glasses-reveal",
+  "InlinePrivate" = "privacy-glasses-inline-private",
+  "PrivateEmbed" = "privacy-glasses-private-embed",
+  "PrivateSurface" = "privacy-glasses-private-surface",
+  "Obfuscated" = "privacy-glasses-obfuscated",
+}
+
+const LEVEL_STRICTNESS: Record<Level, number> = {
+  [Level.RevealAll]: 0,
+  [Level.HidePrivate]: 1,
+  [Level.RevealHeadlines]: 2,
+  [Level.HideAll]: 3,
+};
+
+// higher is stricter: headlines-only hides the body of every note, while hide-private reveals public notes entirely
+export function levelStrictness(level: Level) {
+  return LEVEL_STRICTNESS[level];
+}
@@ -0,0 +1,115 @@
+import { FileView, TFile, getLinkpath } from 'obsidian';
+import { CssClass } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+
+const EMBED_SELECTOR = ".internal-embed[src]";
+export const POPOVER_SELECTOR = ".hover-popover";
+// the resolved vault path is kept on the element, so rule changes can re-evaluate it without resolving the link again
+export const PATH_ATTR = "data-privacy-glasses-path";
+
+// embeds and hover previews render content of other notes inside a leaf, so the leaf's own privacy
+// says nothing about them. each one is resolved to its source file and blurred on its own.
+export class EmbedGuard {
+  plugin: PrivacyGlassesPlugin;
+  // set by `hover-link`, the popover element itself is added to the dom right after
+  hoverPath: string = "";
+  observers: Map<Document, MutationObserver> = new Map();
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  observe(doc: Document) {
+    const observer = new MutationObserver((mutations) => {
+      mutations.forEach((m) => {
+        if (m.type === "attributes") {
+          this.markEmbed(m.target as HTMLElement);
+          return;
+        }
+        m.addedNodes.forEach((node) => {
+          if (node instanceof doc.defaultView.HTMLElement) {
+            this.scan(node);
+          }
+        });
+      });
+    });
+    observer.observe(doc.body, { childList: true, subtree: true, attributes: true, attributeFilter: ["src"] });
+    this.observers.set(doc, observer);
+    this.scan(doc.body);
+  }
+
+  unobserve(doc: Document) {
+    this.observers.get(doc)?.disconnect();
+    this.observers.delete(doc);
+    doc.querySelectorAll<HTMLElement>(`[${PATH_ATTR}]`).forEach((el) => {
+      el.removeAttribute(PATH_ATTR);
+      el.removeClass(CssClass.PrivateEmbed);
+    });
+  }
+
+  onHoverLink(linktext: string, sourcePath: string) {
+    const file = this.plugin.app.metadataCache.getFirstLinkpathDest(getLinkpath(linktext), sourcePath);
+    this.hoverPath = file ? file.path : "";
+  }
+
+  scan(root: HTMLElement) {
+    if (root.matches(POPOVER_SELECTOR)) {
+      this.markPopover(root);
+    }
+    if (root.matches(EMBED_SELECTOR)) {
+      this.markEmbed(root);
+    }
+    root.querySelectorAll<HTMLElement>(POPOVER_SELECTOR).forEach((el) => this.markPopover(el));
+    root.querySelectorAll<HTMLElement>(EMBED_SELECTOR).forEach((el) => this.markEmbed(el));
+  }
+
+  // re-evaluates every known embed, e.g. after the rules changed
+  refresh() {
+    this.observers.forEach((observer, doc) => {
+      doc.querySelectorAll<HTMLElement>(`[${PATH_ATTR}]`).forEach((el) => this.applyPrivacy(el));
+    });
+  }
+
+  markPopover(el: HTMLElement) {
+    if (el.hasAttribute(PATH_ATTR) || !this.hoverPath) {
+      return;
+    }
+    el.setAttribute(PATH_ATTR, this.hoverPath);
+    this.applyPrivacy(el);
+  }
+
+  markEmbed(el: HTMLElement) {
+    const src = el.getAttribute("src");
+    if (!src) {
+      return;
+    }
+    const file = this.plugin.app.metadataCache.getFirstLinkpathDest(getLinkpath(src), this.sourcePathOf(el));
+    if (!file) {
+      el.removeAttribute(PATH_ATTR);
+      el.removeClass(CssClass.PrivateEmbed);
+      return;
+    }
+    el.setAttribute(PATH_ATTR, file.path);
+    this.applyPrivacy(el);
+  }
+
+  applyPrivacy(el: HTMLElement) {
+    const file = this.plugin.app.vault.getAbstractFileByPath(el.getAttribute(PATH_ATTR));
+    el.toggleClass(CssClass.PrivateEmbed, file instanceof TFile && this.plugin.isPrivateFile(file));
+  }
+
+  // links inside an embed or popover are relative to the embedded note, not to the leaf showing it
+  sourcePathOf(el: HTMLElement) {
+    const parent = el.parentElement?.closest<HTMLElement>(`[${PATH_ATTR}]`);
+    if (parent) {
+      return parent.getAttribute(PATH_ATTR);
+    }
+    let path = "";
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+      if (!path && leaf.view instanceof FileView && leaf.view.file && leaf.view.containerEl.contains(el)) {
+        path = leaf.view.file.path;
+      }
+    });
+    return path || (this.plugin.app.workspace.getActiveFile()?.path ?? "");
+  }
+}
@@ -0,0 +1,65 @@
+import { globToRegExp } from './glob';
+
+function matches(glob: string, path: string) {
+  return globToRegExp(glob).test(path);
+}
+
+describe("globToRegExp", () => {
+  test("matches a plain path exactly", () => {
+    expect(matches("finance", "finance")).toBe(true);
+    expect(matches("finance", "financial")).toBe(false);
+    expect(matches("finance", "work/finance")).toBe(false);
+  });
+
+  test("ignores surrounding whitespace and slashes", () => {
+    expect(matches(" /finance/ ", "finance")).toBe(true);
+  });
+
+  test("is case-insensitive", () => {
+    expect(matches("Finance/**", "finance/Taxes")).toBe(true);
+  });
+
+  test("escapes regular expression characters", () => {
+    expect(matches("a.b", "a.b")).toBe(true);
+    expect(matches("a.b", "axb")).toBe(false);
+  });
+
+  test("* stays inside one segment", () => {
+    expect(matches("*secret*", "my secret note.md")).toBe(true);
+    expect(matches("journal/*", "journal/2024")).toBe(true);
+    expect(matches("journal/*", "journal/2024/01")).toBe(false);
+    expect(matches("journal/*", "journal")).toBe(false);
+  });
+
+  test("a trailing /** matches the folder itself and everything below it", () => {
+    expect(matches("finance/**", "finance")).toBe(true);
+    expect(matches("finance/**", "finance/taxes")).toBe(true);
+    expect(matches("finance/**", "finance/taxes/2024")).toBe(true);
+    expect(matches("finance/**", "financial")).toBe(false);
+    expect(matches("finance/**", "work/finance")).toBe(false);
+  });
+
+  test("a leading **/ matches zero or more segments", () => {
+    expect(matches("**/private", "private")).toBe(true);
+    expect(matches("**/private", "work/private")).toBe(true);
+    expect(matches("**/private", "work/team/private")).toBe(true);
+    expect(matches("**/private", "work/private/notes")).toBe(false);
+    expect(matches("**/private", "unprivate")).toBe(false);
+  });
+
+  test("a /**/ in the middle matches zero or more segments", () => {
+    expect(matches("work/**/private", "work/private")).toBe(true);
+    expect(matches("work/**/private", "work/team/a/private")).toBe(true);
+    expect(matches("work/**/private", "workprivate")).toBe(false);
+  });
+
+  test("** alone or repeated matches any path", () => {
+    expect(matches("**", "a/b/c")).toBe(true);
+    expect(matches("**/**/private", "private")).toBe(true);
+    expect(matches("**/**", "a/b")).toBe(true);
+  });
+
+  test("** inside a segment matches across segments", () => {
+    expect(matches("a**z", "a/b/z")).toBe(true);
+  });
+});
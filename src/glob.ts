@@ -0,0 +1,34 @@
+function segmentPattern(segment: string) {
+  return segment
+    .split("**")
+    .map((part) => part
+      .split("*")
+      .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]*"))
+    .join(".*");
+}
+
+// `*` matches inside one path segment, `**` matches across segments. A `**` segment also matches no segment at all,
+// so "finance/**" matches the folder "finance" itself and "**/private" matches a top-level "private"
+export function globToRegExp(glob: string) {
+  const segments = glob
+    .trim()
+    .replace(/^\/+|\/+$/g, "")
+    .split("/")
+    .filter((segment, i, all) => !(segment === "**" && all[i - 1] === "**"));
+  let pattern = "";
+  segments.forEach((segment, i) => {
+    const first = i === 0;
+    const last = i === segments.length - 1;
+    if (segment === "**") {
+      pattern += first && last ? ".*" : first ? "(?:.*/)?" : last ? "(?:/.*)?" : "/(?:.*/)?";
+      return;
+    }
+    // a `**` segment before this one already ends with its separator
+    if (!first && segments[i - 1] !== "**") {
+      pattern += "/";
+    }
+    pattern += segmentPattern(segment);
+  });
+  return new RegExp(`^${pattern}$`, "i");
+}
@@ -0,0 +1,82 @@
+import { CssClass } from './constants';
+import type { PrivacyGlassesSettings } from '../main';
+
+export const MAX_HEADING_DEPTH = 6;
+// indentation and list marker, followed by the checkbox of a task
+const LIST_PREFIX = /^(\s*(?:[-*+]|\d+[.)])\s+)(\[.\]\s+)?/;
+
+export interface HeadlinesOptions {
+  // deepest heading level that stays readable
+  depth: number;
+  tasks: boolean;
+  lists: boolean;
+}
+
+export function headlinesOptionsOf(settings: PrivacyGlassesSettings): HeadlinesOptions {
+  return { depth: settings.headlinesDepth, tasks: settings.headlinesTasks, lists: settings.headlinesLists };
+}
+
+function depthOf(options: HeadlinesOptions) {
+  return Math.max(1, Math.min(MAX_HEADING_DEPTH, Math.round(options.depth)));
+}
+
+export function headingLinePattern(options: HeadlinesOptions) {
+  return new RegExp(`^#{1,${depthOf(options)}}\\s`);
+}
+
+export function headingSelector(options: HeadlinesOptions) {
+  const levels = Array.from({ length: depthOf(options) }, (_, i) => i + 1);
+  return levels.map((n) => `h${n}`).join(", ");
+}
+
+// length of the list marker and checkbox at the start of a line that stay readable in headlines-only mode
+export function revealedPrefixLength(text: string, options: HeadlinesOptions) {
+  const match = LIST_PREFIX.exec(text);
+  if (!match) {
+    return 0;
+  }
+  if (match[2] && options.tasks) {
+    return match[0].length;
+  }
+  return options.lists ? match[1].length : 0;
+}
+
+// headings, checkboxes and list markers have different elements in Live Preview, Source mode and Reading view,
+// so the rules revealing them are generated from the options for all three
+export function headlinesCss(options: HeadlinesOptions) {
+  const scope = `.workspace-leaf-content.${CssClass.IsMdViewHeadlinesOnly}`;
+  const levels = Array.from({ length: depthOf(options) }, (_, i) => i + 1);
+  const headings = levels
+    .map((n) => `.HyperMD-header-${n}, .markdown-preview-section > .el-h${n}`)
+    .join(", ");
+  const revealed = `{text-shadow: none; color: initial;}`;
+  const blurred = `{filter: blur(calc(var(--blurLevel) * 1));}`;
+  // the inline title sits in the note's header block in Reading view, it is a headline as well
+  let css = `
+
+          ${scope} :is(.inline-title, ${headings}) ${revealed}
+          `;
+  css += options.tasks
+    ? `
+          ${scope} .cm-formatting-task ${revealed}
+          `
+    : `
+          ${scope} .task-list-item-checkbox ${blurred}
+          `;
+  css += options.lists
+    ? `
+          ${scope} :is(.cm-formatting-list, .list-number) ${revealed}
+
+          ${scope} .markdown-preview-section li::marker {color: var(--list-marker-color);}
+          `
+    : `
+          ${scope} :is(.list-bullet, .list-collapse-indicator) ${blurred}
+
+          ${scope} .markdown-preview-section li::marker {color: transparent;}
+          `;
+  css += `
+          .${CssClass.RevealOnHover} ${scope} :is(.cm-line, .markdown-preview-section > div):hover :is(.task-list-item-checkbox, .list-bullet) {filter: unset;}
+
+          `;
+  return css;
+}
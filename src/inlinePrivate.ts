@@ -0,0 +1,156 @@
+import { MarkdownPostProcessor } from 'obsidian';
+import { RangeSetBuilder } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { CssClass } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+
+export interface PrivateRange {
+  from: number;
+  to: number;
+}
+
+// a fence's content range plus the range including its markers
+export interface PrivateFence extends PrivateRange {
+  outerFrom: number;
+  outerTo: number;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// finds `%%marker%% ... %%/marker%%` fences. an unterminated fence runs to the end of the note,
+// so a forgotten closing marker keeps the rest of the note hidden instead of leaking it
+export function findPrivateFences(text: string, marker: string): PrivateFence[] {
+  if (!marker) {
+    return [];
+  }
+  const ranges: PrivateFence[] = [];
+  const open = new RegExp(`%%\\s*${escapeRegExp(marker)}\\s*%%`, "gi");
+  const close = new RegExp(`%%\\s*/${escapeRegExp(marker)}\\s*%%`, "gi");
+  let m: RegExpExecArray | null;
+  while ((m = open.exec(text)) !== null) {
+    const from = m.index + m[0].length;
+    close.lastIndex = from;
+    const c = close.exec(text);
+    const to = c ? c.index : text.length;
+    ranges.push({ from, to, outerFrom: m.index, outerTo: c ? c.index + c[0].length : text.length });
+    open.lastIndex = c ? c.index + c[0].length : text.length;
+  }
+  return ranges;
+}
+
+// finds `> [!marker]` callouts, from the callout header to the last quoted line
+export function findPrivateCallouts(text: string, marker: string): PrivateRange[] {
+  if (!marker) {
+    return [];
+  }
+  const ranges: PrivateRange[] = [];
+  const header = new RegExp(`^>\\s*\\[!${escapeRegExp(marker)}\\][+-]?`, "i");
+  const lines = text.split("\n");
+  let pos = 0;
+  let current: PrivateRange | null = null;
+  for (const line of lines) {
+    if (current && line.startsWith(">")) {
+      current.to = pos + line.length;
+    }
+    else {
+      current = null;
+      if (header.test(line)) {
+        current = { from: pos, to: pos + line.length };
+        ranges.push(current);
+      }
+    }
+    pos += line.length + 1;
+  }
+  return ranges;
+}
+
+function buildDecorations(view: EditorView, marker: string): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  const doc = view.state.doc;
+  const text = doc.toString();
+  const mark = Decoration.mark({ class: CssClass.InlinePrivate });
+  const line = Decoration.line({ class: CssClass.InlinePrivate });
+
+  // callout lines get line decorations, so the blur follows them in source mode and while
+  // live preview shows the raw callout under the cursor; fences are marked as text spans
+  const decorations: { from: number; to: number; deco: Decoration }[] = [];
+  findPrivateCallouts(text, marker).forEach((r) => {
+    for (let n = doc.lineAt(r.from).number; n <= doc.lineAt(r.to).number; n++) {
+      const l = doc.line(n);
+      decorations.push({ from: l.from, to: l.from, deco: line });
+    }
+  });
+  findPrivateFences(text, marker).forEach((r) => {
+    if (r.to > r.from) {
+      decorations.push({ from: r.from, to: r.to, deco: mark });
+    }
+  });
+  // RangeSetBuilder needs ranges sorted by position, with line decorations first at the same offset
+  decorations
+    .sort((a, b) => a.from - b.from || (a.to - a.from) - (b.to - b.from))
+    .forEach((d) => builder.add(d.from, d.to, d.deco));
+  return builder.finish();
+}
+
+export function inlinePrivateExtension(plugin: PrivacyGlassesPlugin) {
+  return ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+    marker: string;
+
+    constructor(view: EditorView) {
+      this.marker = plugin.settings.inlinePrivateMarker;
+      this.decorations = buildDecorations(view, this.marker);
+    }
+
+    update(update: ViewUpdate) {
+      // the marker can be changed in settings, `workspace.updateOptions` brings us here to pick it up
+      if (update.docChanged || this.marker !== plugin.settings.inlinePrivateMarker) {
+        this.marker = plugin.settings.inlinePrivateMarker;
+        this.decorations = buildDecorations(update.view, this.marker);
+      }
+    }
+  }, {
+    decorations: (v) => v.decorations,
+  });
+}
+
+// reading view strips `%%` comments, so the fence markers never reach the rendered html.
+// we map each rendered section back to its source lines and blur every section a fence touches.
+// private callouts are rendered as `.callout[data-callout]` and handled by `inlinePrivateCalloutCss`.
+export function inlinePrivatePostProcessor(plugin: PrivacyGlassesPlugin): MarkdownPostProcessor {
+  return (el, ctx) => {
+    const marker = plugin.settings.inlinePrivateMarker;
+    const info = ctx.getSectionInfo(el);
+    if (!marker || !info) {
+      return;
+    }
+    const lineOffsets = [0];
+    for (let i = 0; i < info.text.length; i++) {
+      if (info.text[i] === "\n") {
+        lineOffsets.push(i + 1);
+      }
+    }
+    const sectionFrom = lineOffsets[info.lineStart] ?? 0;
+    const sectionTo = (lineOffsets[info.lineEnd + 1] ?? info.text.length + 1) - 1;
+    const isPrivate = findPrivateFences(info.text, marker)
+      .some((r) => r.from <= sectionTo && r.to >= sectionFrom);
+    el.toggleClass(CssClass.InlinePrivate, isPrivate);
+  };
+}
+
+// the callout type comes from the configurable marker, so its css can't live in styles.css
+export function inlinePrivateCalloutCss(marker: string) {
+  if (!marker) {
+    return "";
+  }
+  const callout = `.callout[data-callout="${CSS.escape(marker.toLowerCase())}"]`;
+  return `
+
+    ${callout} {filter: blur(calc(var(--blurLevel) * 1)); transition: filter ease-out 0.3s}
+
+    .privacy-glasses-reveal-on-hover ${callout}:hover {filter: unset}
+
+    `;
+}
@@ -0,0 +1,258 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Level, levelStrictness } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+
+const PBKDF2_ITERATIONS = 100000;
+// failures allowed before every further attempt is delayed
+const FREE_ATTEMPTS = 3;
+const LOCKOUT_BASE_MS = 5000;
+const LOCKOUT_MAX_MS = 5 * 60 * 1000;
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string) {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+export function createSalt() {
+  return toHex(window.crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function hashPassphrase(passphrase: string, salt: string) {
+  const key = await window.crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await window.crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(salt), iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+// guards every switch from `Level.HideAll`, or from a level set by an auto-hide trigger,
+// to a less restrictive level behind the passphrase
+export class LevelLock {
+  plugin: PrivacyGlassesPlugin;
+  // set by auto-hide triggers whose level may be less strict than "Hide all"
+  engaged: boolean = false;
+  failures: number = 0;
+  lockedUntil: number = 0;
+  pending: Promise<boolean> | null = null;
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  get isEnabled() {
+    return !!this.plugin.settings.lockHash && !!this.plugin.settings.lockSalt;
+  }
+
+  isRequired(from: Level, to: Level) {
+    return this.isEnabled &&
+      (from === Level.HideAll || this.engaged) &&
+      levelStrictness(to) < levelStrictness(from);
+  }
+
+  // "Hide all", or a level set by an auto-hide trigger, while a passphrase is set
+  get isLocked() {
+    return this.isEnabled && (this.plugin.currentLevel === Level.HideAll || this.engaged);
+  }
+
+  engage() {
+    this.engaged = this.isEnabled;
+  }
+
+  async verify(passphrase: string) {
+    const { lockHash, lockSalt } = this.plugin.settings;
+    return await hashPassphrase(passphrase, lockSalt) === lockHash;
+  }
+
+  // asks for the passphrase, resolves to true once it was entered correctly
+  unlock(): Promise<boolean> {
+    if (!this.pending) {
+      this.pending = new Promise<boolean>((resolve) => {
+        new PassphraseModal(this.plugin.app, this, resolve).open();
+      }).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  registerFailure() {
+    this.failures++;
+    if (this.failures >= FREE_ATTEMPTS) {
+      const delay = Math.min(LOCKOUT_BASE_MS * Math.pow(2, this.failures - FREE_ATTEMPTS), LOCKOUT_MAX_MS);
+      this.lockedUntil = Date.now() + delay;
+    }
+  }
+
+  registerSuccess() {
+    this.engaged = false;
+    this.failures = 0;
+    this.lockedUntil = 0;
+  }
+
+  remainingLockoutSeconds() {
+    return Math.max(0, Math.ceil((this.lockedUntil - Date.now()) / 1000));
+  }
+
+  async setPassphrase(passphrase: string) {
+    const salt = createSalt();
+    this.plugin.settings.lockHash = await hashPassphrase(passphrase, salt);
+    this.plugin.settings.lockSalt = salt;
+    await this.plugin.saveSettings();
+  }
+
+  async clearPassphrase() {
+    this.plugin.settings.lockHash = "";
+    this.plugin.settings.lockSalt = "";
+    await this.plugin.saveSettings();
+  }
+}
+
+class PassphraseModal extends Modal {
+  lock: LevelLock;
+  resolve: (unlocked: boolean) => void;
+  unlocked: boolean = false;
+
+  constructor(app: App, lock: LevelLock, resolve: (unlocked: boolean) => void) {
+    super(app);
+    this.lock = lock;
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Privacy Glasses is locked");
+    contentEl.createEl("p", { text: "Enter your passphrase to reveal content." });
+
+    let passphrase = "";
+    const submit = async () => {
+      const wait = this.lock.remainingLockoutSeconds();
+      if (wait > 0) {
+        new Notice(`Too many failed attempts, try again in ${wait} s`);
+        return;
+      }
+      if (await this.lock.verify(passphrase)) {
+        this.lock.registerSuccess();
+        this.unlocked = true;
+        this.close();
+        return;
+      }
+      this.lock.registerFailure();
+      new Notice("Wrong passphrase");
+    };
+
+    new Setting(contentEl)
+      .setName("Passphrase")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((value) => {
+          passphrase = value;
+        });
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit();
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+    new Setting(contentEl)
+      .addButton((button) => button
+        .setButtonText("Unlock")
+        .setCta()
+        .onClick(submit));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.unlocked);
+  }
+}
+
+export class SetPassphraseModal extends Modal {
+  lock: LevelLock;
+  onDone: () => void;
+
+  constructor(app: App, lock: LevelLock, onDone: () => void) {
+    super(app);
+    this.lock = lock;
+    this.onDone = onDone;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Set passphrase");
+    let current = "";
+    let passphrase = "";
+    let confirmation = "";
+
+    if (this.lock.isEnabled) {
+      new Setting(contentEl)
+        .setName("Current passphrase")
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text.onChange((value) => {
+            current = value;
+          });
+        });
+    }
+    new Setting(contentEl)
+      .setName("New passphrase")
+      .setDesc("Leave empty to remove the lock.")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((value) => {
+          passphrase = value;
+        });
+      });
+    new Setting(contentEl)
+      .setName("Repeat new passphrase")
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((value) => {
+          confirmation = value;
+        });
+      });
+    new Setting(contentEl)
+      .addButton((button) => button
+        .setButtonText("Save")
+        .setCta()
+        .onClick(async () => {
+          if (this.lock.isEnabled) {
+            const wait = this.lock.remainingLockoutSeconds();
+            if (wait > 0) {
+              new Notice(`Too many failed attempts, try again in ${wait} s`);
+              return;
+            }
+            if (!(await this.lock.verify(current))) {
+              this.lock.registerFailure();
+              new Notice("Wrong passphrase");
+              return;
+            }
+            this.lock.registerSuccess();
+          }
+          if (passphrase !== confirmation) {
+            new Notice("Passphrases do not match");
+            return;
+          }
+          if (passphrase === "") {
+            await this.lock.clearPassphrase();
+          }
+          else {
+            await this.lock.setPassphrase(passphrase);
+          }
+          this.close();
+          this.onDone();
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
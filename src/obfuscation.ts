@@ -0,0 +1,261 @@
+import { Editor, MarkdownPostProcessor, MarkdownView, TFile, View, Workspace } from 'obsidian';
+import { RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { CssClass, Level, ObfuscationMethod } from './constants';
+import { PATH_ATTR, POPOVER_SELECTOR } from './embeds';
+import { headingLinePattern, headingSelector, headlinesOptionsOf, revealedPrefixLength } from './headlines';
+import type PrivacyGlassesPlugin from '../main';
+
+const GLYPH = "•";
+const BLOCK = "█";
+const SCRAMBLE_CHARS = "abcdefghijklmnopqrstuvwxyz";
+const ALL_HEADINGS = "h1, h2, h3, h4, h5, h6";
+// how often and how long apart a rendered section that isn't attached yet is checked again
+const ATTACH_CHECKS = 10;
+const ATTACH_CHECK_MS = 100;
+
+// dispatched to every editor when levels or classes change, since css class changes don't reach codemirror
+const refreshEffect = StateEffect.define<null>();
+
+// the codemirror view behind an editor is internal
+interface CodeMirrorEditor extends Editor {
+  cm?: EditorView;
+}
+
+function editorViewOf(view: View) {
+  const cm = view instanceof MarkdownView ? (view.editor as CodeMirrorEditor).cm : null;
+  return cm instanceof EditorView ? cm : null;
+}
+
+// the masked text never depends on the real characters beyond their count and the whitespace layout,
+// except for scramble, which doesn't even keep the word lengths
+export function maskText(text: string, method: ObfuscationMethod, seed: number = 0) {
+  switch (method) {
+    case ObfuscationMethod.Blocks:
+      return text.replace(/\S/g, BLOCK);
+    case ObfuscationMethod.Glyphs:
+      return text.replace(/\S/g, GLYPH);
+    case ObfuscationMethod.Scramble: {
+      let state = (seed * 2654435761 + 1) >>> 0;
+      let result = "";
+      for (let i = 0; i < text.length; i++) {
+        state = (state * 1103515245 + 12345) >>> 0;
+        const r = state >>> 16;
+        result += text[i] === "\n" ? "\n" : (r % 6 === 0 ? " " : SCRAMBLE_CHARS[r % SCRAMBLE_CHARS.length]);
+      }
+      return result;
+    }
+  }
+  return text;
+}
+
+function leafContentOf(el: HTMLElement) {
+  return el.closest<HTMLElement>(".workspace-leaf-content");
+}
+
+// a leaf is hidden until `updateLeafViewStyle` adds the reveal class, so freshly loaded content starts masked.
+// a hover popover is hidden like its embed, by the file `EmbedGuard` resolved it to. markdown rendered
+// anywhere else, e.g. by other plugins, belongs to neither and is never masked
+function isHiddenIn(plugin: PrivacyGlassesPlugin, el: HTMLElement) {
+  const popover = el.closest<HTMLElement>(POPOVER_SELECTOR);
+  if (popover) {
+    const file = plugin.app.vault.getAbstractFileByPath(popover.getAttribute(PATH_ATTR) ?? "");
+    return plugin.currentLevel !== Level.RevealAll && file instanceof TFile && plugin.isPrivateFile(file);
+  }
+  const leafContent = leafContentOf(el);
+  return !!leafContent && !leafContent.hasClass(CssClass.PrivacyGlassesReveal);
+}
+
+function isHeadlinesOnlyIn(el: HTMLElement) {
+  return !!leafContentOf(el)?.hasClass(CssClass.IsMdViewHeadlinesOnly);
+}
+
+class MaskWidget extends WidgetType {
+  text: string;
+
+  constructor(text: string) {
+    super();
+    this.text = text;
+  }
+
+  eq(other: MaskWidget) {
+    return other.text === this.text;
+  }
+
+  toDOM(view: EditorView) {
+    const span = view.dom.ownerDocument.createElement("span");
+    span.addClass(CssClass.Obfuscated);
+    span.textContent = this.text;
+    return span;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+export function obfuscationExtension(plugin: PrivacyGlassesPlugin) {
+  return ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+    hoveredLine: number = -1;
+
+    constructor(view: EditorView) {
+      this.decorations = this.build(view);
+    }
+
+    update(update: ViewUpdate) {
+      this.decorations = this.build(update.view);
+    }
+
+    build(view: EditorView): DecorationSet {
+      const method = plugin.settings.editObfuscation;
+      if (method === ObfuscationMethod.Blur || !isHiddenIn(plugin, view.dom)) {
+        return Decoration.none;
+      }
+      const builder = new RangeSetBuilder<Decoration>();
+      const { doc, selection } = view.state;
+      const headlinesOnly = isHeadlinesOnlyIn(view.dom);
+      const headlines = headlinesOptionsOf(plugin.settings);
+      const headingLine = headingLinePattern(headlines);
+      const caretLine = plugin.revealsUnderCaret() ? doc.lineAt(selection.main.head).number : -1;
+      const hoveredLine = plugin.revealsOnHover() ? this.hoveredLine : -1;
+      let lastLine = 0;
+      view.visibleRanges.forEach(({ from, to }) => {
+        for (let n = doc.lineAt(from).number; n <= doc.lineAt(to).number; n++) {
+          if (n <= lastLine) {
+            continue;
+          }
+          lastLine = n;
+          const line = doc.line(n);
+          if (line.length === 0 || n === caretLine || n === hoveredLine ||
+            (headlinesOnly && headingLine.test(line.text))) {
+            continue;
+          }
+          // list markers and checkboxes revealed in headlines-only mode are left out of the mask
+          const prefix = headlinesOnly ? revealedPrefixLength(line.text, headlines) : 0;
+          if (prefix >= line.length) {
+            continue;
+          }
+          builder.add(line.from + prefix, line.to, Decoration.replace({
+            widget: new MaskWidget(maskText(line.text.slice(prefix), method, n)),
+          }));
+        }
+      });
+      return builder.finish();
+    }
+  }, {
+    decorations: (v) => v.decorations,
+    eventHandlers: {
+      mousemove(e, view) {
+        const pos = view.posAtCoords({ x: e.clientX, y: e.clientY });
+        const line = pos === null ? -1 : view.state.doc.lineAt(pos).number;
+        if (line !== this.hoveredLine) {
+          this.hoveredLine = line;
+          view.dispatch({ effects: refreshEffect.of(null) });
+        }
+      },
+      mouseleave(e, view) {
+        if (this.hoveredLine !== -1) {
+          this.hoveredLine = -1;
+          view.dispatch({ effects: refreshEffect.of(null) });
+        }
+      },
+    },
+  });
+}
+
+// original text of every masked text node, the dom only ever holds the masked copy while hidden
+const originals: WeakMap<Text, string> = new WeakMap();
+const maskedSections: Set<HTMLElement> = new Set();
+
+function textNodesOf(el: HTMLElement) {
+  const nodes: Text[] = [];
+  const walker = el.ownerDocument.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    nodes.push(walker.currentNode as Text);
+  }
+  return nodes;
+}
+
+function setSectionMasked(el: HTMLElement, method: ObfuscationMethod, masked: boolean, headings: string = ALL_HEADINGS) {
+  const headlinesOnly = isHeadlinesOnlyIn(el);
+  textNodesOf(el).forEach((node, i) => {
+    if (!originals.has(node)) {
+      originals.set(node, node.data);
+    }
+    const original = originals.get(node);
+    const isHeading = headlinesOnly && !!node.parentElement?.closest(headings);
+    node.data = masked && !isHeading && method !== ObfuscationMethod.Blur ? maskText(original, method, i) : original;
+  });
+}
+
+function updateSection(plugin: PrivacyGlassesPlugin, el: HTMLElement) {
+  if (!el.isConnected) {
+    maskedSections.delete(el);
+    return;
+  }
+  setSectionMasked(el, plugin.settings.previewObfuscation, isHiddenIn(plugin, el), headingSelector(headlinesOptionsOf(plugin.settings)));
+}
+
+// a section that never gets attached belongs to no leaf or popover, so its text is put back
+function checkNewSection(plugin: PrivacyGlassesPlugin, el: HTMLElement, checks: number = ATTACH_CHECKS) {
+  if (el.isConnected) {
+    updateSection(plugin, el);
+  }
+  else if (checks > 0) {
+    window.setTimeout(() => checkNewSection(plugin, el, checks - 1), ATTACH_CHECK_MS);
+  }
+  else {
+    maskedSections.delete(el);
+    setSectionMasked(el, ObfuscationMethod.Blur, false);
+  }
+}
+
+export function obfuscationPostProcessor(plugin: PrivacyGlassesPlugin): MarkdownPostProcessor {
+  return (el) => {
+    const method = plugin.settings.previewObfuscation;
+    if (method === ObfuscationMethod.Blur) {
+      return;
+    }
+    // sections are not attached to their leaf yet, so they start masked and are checked once they are
+    setSectionMasked(el, method, true, headingSelector(headlinesOptionsOf(plugin.settings)));
+    maskedSections.add(el);
+    window.setTimeout(() => checkNewSection(plugin, el), 0);
+
+    el.addEventListener("mouseenter", () => {
+      if (plugin.revealsOnHover()) {
+        setSectionMasked(el, plugin.settings.previewObfuscation, false);
+      }
+    });
+    el.addEventListener("mouseleave", () => updateSection(plugin, el));
+  };
+}
+
+// markdown rendered to be copied or exported has to carry the real text, whatever the post-processor masked
+export function unmaskRendered(el: HTMLElement) {
+  Array.from(maskedSections)
+    .filter((section) => el.contains(section))
+    .forEach((section) => maskedSections.delete(section));
+  setSectionMasked(el, ObfuscationMethod.Blur, false);
+}
+
+export function restoreObfuscation() {
+  maskedSections.forEach((el) => setSectionMasked(el, ObfuscationMethod.Blur, false));
+  maskedSections.clear();
+}
+
+export function refreshObfuscation(plugin: PrivacyGlassesPlugin) {
+  Array.from(maskedSections).forEach((el) => updateSection(plugin, el));
+  plugin.app.workspace.iterateAllLeaves((leaf) => {
+    editorViewOf(leaf.view)?.dispatch({ effects: refreshEffect.of(null) });
+  });
+}
+
+// switching the reading view method needs the original rendering back
+export function rerenderPreviews(workspace: Workspace) {
+  workspace.iterateAllLeaves((leaf) => {
+    if (leaf.view instanceof MarkdownView) {
+      leaf.view.previewMode.rerender(true);
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Level, LevelSource } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+import type { PrivacyGlassesSettings } from '../main';
+
+// everything a profile switches, i.e. all settings except the startup ones, the profiles themselves, the lock, the schedule,
+// which switches levels on its own, and the reveal log, which must not be turned off along with a profile
+export type ProfileSnapshot = Omit<PrivacyGlassesSettings,
+  "blurOnStartup" | "profiles" | "startupProfile" | "lockHash" | "lockSalt" | "schedule" | "scheduleFallbackLevel" |
+  "revealLogEnabled" | "revealLogRetentionDays" | "revealLogMaxEntries">;
+
+export interface PrivacyProfile {
+  id: string;
+  name: string;
+  level: Level;
+  showInRibbon: boolean;
+  settings: ProfileSnapshot;
+}
+
+export function snapshotSettings(settings: PrivacyGlassesSettings): ProfileSnapshot {
+  const {
+    blurOnStartup, profiles, startupProfile, lockHash, lockSalt, schedule, scheduleFallbackLevel,
+    revealLogEnabled, revealLogRetentionDays, revealLogMaxEntries, ...snapshot
+  } = settings;
+  // profiles must not share rule objects with the live settings
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+export function createProfile(name: string, level: Level, settings: PrivacyGlassesSettings): PrivacyProfile {
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    name,
+    level,
+    showInRibbon: false,
+    settings: snapshotSettings(settings),
+  };
+}
+
+export class ProfileSuggestModal extends FuzzySuggestModal<PrivacyProfile> {
+  plugin: PrivacyGlassesPlugin;
+
+  constructor(app: App, plugin: PrivacyGlassesPlugin) {
+    super(app);
+    this.plugin = plugin;
+    this.setPlaceholder("Switch privacy profile");
+  }
+
+  getItems() {
+    return this.plugin.settings.profiles;
+  }
+
+  getItemText(profile: PrivacyProfile) {
+    return profile.name;
+  }
+
+  onChooseItem(profile: PrivacyProfile) {
+    this.plugin.applyProfile(profile, LevelSource.Command);
+  }
+}
@@ -0,0 +1,265 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, Setting, TFile, getLinkpath, normalizePath } from 'obsidian';
+import { CssClass } from './constants';
+import { findPrivateCallouts, findPrivateFences } from './inlinePrivate';
+import { unmaskRendered } from './obfuscation';
+import { RuleEffect, RuleMatch, parseTags, propertyKeyOf } from './rules';
+import type PrivacyGlassesPlugin from '../main';
+
+const PLACEHOLDER = "[redacted]";
+const LINK_PLACEHOLDER = "[redacted link]";
+const NOTE_PLACEHOLDER = "[This note is private and has been redacted]";
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/;
+const WIKILINK = /(!?)\[\[([^\]|#^]*)([^\]|]*)(?:\|([^\]]*))?\]\]/g;
+const MARKDOWN_LINK = /(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+export interface Redaction {
+  kind: string;
+  original: string;
+  line: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+interface Replacement {
+  from: number;
+  to: number;
+  text: string;
+  kind: string;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// frontmatter lines of private properties, including the indented list items below them
+function frontmatterReplacements(content: string, keys: string[], privateTags: string[]): Replacement[] {
+  const match = FRONTMATTER.exec(content);
+  if (!match) {
+    return [];
+  }
+  const replacements: Replacement[] = [];
+  const lines = match[1].split("\n");
+  // the content starts right after the opening `---` line
+  let pos = content.indexOf("\n") + 1;
+  let currentKey = "";
+  lines.forEach((line) => {
+    const keyMatch = /^([^\s:#-][^:]*):/.exec(line);
+    if (keyMatch) {
+      currentKey = keyMatch[1].trim();
+    }
+    const lineEnd = pos + line.length + 1;
+    if (keys.includes(currentKey)) {
+      replacements.push({ from: pos, to: lineEnd, text: "", kind: `property "${currentKey}"` });
+    }
+    else if (currentKey === "tags") {
+      const valueRe = /[\w/-]+/g;
+      const offset = keyMatch ? keyMatch[0].length : 0;
+      let m: RegExpExecArray | null;
+      valueRe.lastIndex = offset;
+      while ((m = valueRe.exec(line)) !== null) {
+        if (privateTags.includes("#" + m[0].toLowerCase())) {
+          replacements.push({ from: pos + m.index, to: pos + m.index + m[0].length, text: "redacted", kind: "private tag" });
+        }
+      }
+    }
+    pos = lineEnd;
+  });
+  return replacements;
+}
+
+export function redactNote(plugin: PrivacyGlassesPlugin, file: TFile, content: string): RedactionResult {
+  const { app, settings } = plugin;
+  const frontmatter = FRONTMATTER.exec(content);
+  const bodyStart = frontmatter ? frontmatter[0].length : 0;
+
+  const includeRules = settings.rules.filter((r) => r.effect === RuleEffect.Include);
+  const privateTags = includeRules
+    .filter((r) => r.match === RuleMatch.Tag)
+    .reduce((tags, r) => tags.concat(parseTags(r.value)), [] as string[]);
+  const privateKeys = includeRules
+    .filter((r) => r.match === RuleMatch.Property)
+    .map((r) => propertyKeyOf(r.value))
+    .concat(settings.levelProperty ? [settings.levelProperty] : [])
+    .filter((k) => k !== "");
+
+  const replacements: Replacement[] = frontmatterReplacements(content, privateKeys, privateTags);
+
+  // a private note keeps nothing but its cleaned frontmatter
+  if (plugin.isPrivateFile(file)) {
+    replacements.push({ from: bodyStart, to: content.length, text: NOTE_PLACEHOLDER, kind: "private note" });
+  }
+  else {
+    const marker = settings.inlinePrivateMarker;
+    findPrivateFences(content, marker).forEach((r) => {
+      replacements.push({ from: r.outerFrom, to: r.outerTo, text: PLACEHOLDER, kind: "private section" });
+    });
+    findPrivateCallouts(content, marker).forEach((r) => {
+      replacements.push({ from: r.from, to: r.to, text: PLACEHOLDER, kind: "private callout" });
+    });
+
+    const isPrivateLink = (linkpath: string) => {
+      let decoded = linkpath;
+      try {
+        decoded = decodeURI(linkpath);
+      }
+      catch (e) {
+        // a stray `%` is kept as written
+      }
+      const target = app.metadataCache.getFirstLinkpathDest(getLinkpath(decoded), file.path);
+      return !!target && plugin.isPrivateFile(target);
+    };
+    let m: RegExpExecArray | null;
+    WIKILINK.lastIndex = bodyStart;
+    while ((m = WIKILINK.exec(content)) !== null) {
+      if (isPrivateLink(m[2])) {
+        replacements.push({ from: m.index, to: m.index + m[0].length, text: LINK_PLACEHOLDER, kind: m[1] ? "embed of a private note" : "link to a private note" });
+      }
+    }
+    MARKDOWN_LINK.lastIndex = bodyStart;
+    while ((m = MARKDOWN_LINK.exec(content)) !== null) {
+      if (!/^[a-z]+:/i.test(m[3]) && isPrivateLink(m[3])) {
+        replacements.push({ from: m.index, to: m.index + m[0].length, text: LINK_PLACEHOLDER, kind: m[1] ? "embed of a private note" : "link to a private note" });
+      }
+    }
+
+    privateTags.forEach((tag) => {
+      const re = new RegExp(`(^|\\s)(${escapeRegExp(tag)}(?:/[^\\s#]*)?)(?=$|[\\s.,;:!?)])`, "gim");
+      re.lastIndex = bodyStart;
+      while ((m = re.exec(content)) !== null) {
+        const from = m.index + m[1].length;
+        replacements.push({ from, to: from + m[2].length, text: PLACEHOLDER, kind: "private tag" });
+      }
+    });
+  }
+
+  // overlapping matches, e.g. a link inside a private section, are covered by the outermost replacement
+  const applied: Replacement[] = [];
+  replacements
+    .sort((a, b) => a.from - b.from || b.to - a.to)
+    .forEach((r) => {
+      const last = applied[applied.length - 1];
+      if (!last || r.from >= last.to) {
+        applied.push(r);
+      }
+    });
+
+  const redactions: Redaction[] = applied.map((r) => ({
+    kind: r.kind,
+    original: content.slice(r.from, r.to).trim(),
+    line: content.slice(0, r.from).split("\n").length,
+  }));
+  let text = content;
+  for (let i = applied.length - 1; i >= 0; i--) {
+    const r = applied[i];
+    text = text.slice(0, r.from) + r.text + text.slice(r.to);
+  }
+  return { text, redactions };
+}
+
+async function renderHtml(app: App, markdown: string, sourcePath: string) {
+  const el = createDiv();
+  const component = new Component();
+  component.load();
+  await MarkdownRenderer.render(app, markdown, el, sourcePath, component);
+  component.unload();
+  unmaskRendered(el);
+  return el.innerHTML;
+}
+
+async function writeExport(app: App, file: TFile, extension: string, data: string) {
+  const folder = file.parent && !file.parent.isRoot() ? file.parent.path + "/" : "";
+  const path = normalizePath(`${folder}${file.basename} (redacted).${extension}`);
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await app.vault.modify(existing, data);
+  }
+  else {
+    await app.vault.create(path, data);
+  }
+  new Notice(`Redacted copy written to ${path}`);
+}
+
+// shows everything that will be removed before anything is copied or written
+export class RedactionModal extends Modal {
+  plugin: PrivacyGlassesPlugin;
+  file: TFile;
+  result: RedactionResult;
+  action: "copy" | "export";
+
+  constructor(plugin: PrivacyGlassesPlugin, file: TFile, result: RedactionResult, action: "copy" | "export") {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.file = file;
+    this.result = result;
+    this.action = action;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { redactions, text } = this.result;
+    this.titleEl.setText(`Redacted ${this.file.basename}`);
+    this.modalEl.addClass("privacy-glasses-redaction-modal");
+
+    contentEl.createEl("p", {
+      text: redactions.length === 0
+        ? "Nothing in this note matches the privacy rules."
+        : `${redactions.length} item(s) will be replaced with placeholders:`
+    });
+    const list = contentEl.createEl("ul", { cls: "privacy-glasses-redaction-list" });
+    redactions.forEach((r) => {
+      const item = list.createEl("li");
+      item.createSpan({ cls: "privacy-glasses-redaction-kind", text: `Line ${r.line}, ${r.kind}: ` });
+      // the removed text is private itself, it is blurred like private paths anywhere else
+      item.createEl("code", {
+        cls: CssClass.PrivateSurface,
+        text: r.original.length > 80 ? r.original.slice(0, 80) + "…" : r.original,
+      });
+    });
+    contentEl.createEl("h4", { text: "Result" });
+    contentEl.createEl("pre", { cls: "privacy-glasses-redaction-preview", text });
+
+    const buttons = new Setting(contentEl);
+    if (this.action === "copy") {
+      buttons.addButton((button) => button
+        .setButtonText("Copy Markdown")
+        .setCta()
+        .onClick(async () => {
+          await navigator.clipboard.writeText(text);
+          new Notice("Redacted note copied");
+          this.close();
+        }));
+      buttons.addButton((button) => button
+        .setButtonText("Copy HTML")
+        .onClick(async () => {
+          await navigator.clipboard.writeText(await renderHtml(this.app, text, this.file.path));
+          new Notice("Redacted note copied as HTML");
+          this.close();
+        }));
+    }
+    else {
+      buttons.addButton((button) => button
+        .setButtonText("Export Markdown")
+        .setCta()
+        .onClick(async () => {
+          await writeExport(this.app, this.file, "md", text);
+          this.close();
+        }));
+      buttons.addButton((button) => button
+        .setButtonText("Export HTML")
+        .onClick(async () => {
+          await writeExport(this.app, this.file, "html", await renderHtml(this.app, text, this.file.path));
+          this.close();
+        }));
+    }
+    buttons.addButton((button) => button
+      .setButtonText("Cancel")
+      .onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,227 @@
+import { DropdownComponent, ItemView, Notice, TFile, WorkspaceLeaf, normalizePath } from 'obsidian';
+import { CssClass, Level, LevelSource } from './constants';
+import { LEVEL_NAMES } from './statusBar';
+import type PrivacyGlassesPlugin from '../main';
+
+export const REVEAL_LOG_VIEW_TYPE = "privacy-glasses-reveal-log";
+const LOG_FILE = "reveal-log.jsonl";
+// besides on startup, retention is applied after this many new entries
+const PRUNE_INTERVAL = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export enum RevealLogEntryType {
+  "Level" = "level",
+  "Reveal" = "reveal",
+}
+
+export interface RevealLogEntry {
+  // iso timestamp
+  time: string;
+  type: RevealLogEntryType;
+  level?: Level;
+  previous?: Level;
+  source?: LevelSource;
+  // the private file a pane revealed
+  path?: string;
+}
+
+// level changes and every pane revealing a private note, one json object per line in the plugin folder.
+// entries are only ever appended, the file is rewritten only to drop entries past the retention limits.
+export class RevealLog {
+  plugin: PrivacyGlassesPlugin;
+  // writes are chained, so entries keep their order and pruning never races an append
+  queue: Promise<void> = Promise.resolve();
+  appended: number = 0;
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  get path() {
+    return normalizePath(`${this.plugin.manifest.dir}/${LOG_FILE}`);
+  }
+
+  register() {
+    const { plugin } = this;
+    plugin.registerEvent(plugin.on("level-change", (level, previous, source) => {
+      this.record({ type: RevealLogEntryType.Level, level, previous, source });
+    }));
+    plugin.registerEvent(plugin.on("leaf-reveal", (leaf, file) => {
+      if (file && plugin.isPrivate(file)) {
+        this.record({ type: RevealLogEntryType.Reveal, path: file.path });
+      }
+    }));
+  }
+
+  enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(task).catch(() => {
+      new Notice("Privacy Glasses: writing the reveal log failed");
+    });
+    return this.queue;
+  }
+
+  record(entry: Omit<RevealLogEntry, "time">) {
+    if (!this.plugin.settings.revealLogEnabled) {
+      return;
+    }
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n";
+    const { adapter } = this.plugin.app.vault;
+    this.enqueue(async () => {
+      if (await adapter.exists(this.path)) {
+        await adapter.append(this.path, line);
+      }
+      else {
+        await adapter.write(this.path, line);
+      }
+    });
+    this.appended++;
+    if (this.appended >= PRUNE_INTERVAL) {
+      this.appended = 0;
+      this.prune();
+    }
+  }
+
+  async readEntries() {
+    const { adapter } = this.plugin.app.vault;
+    if (!(await adapter.exists(this.path))) {
+      return [];
+    }
+    const entries: RevealLogEntry[] = [];
+    (await adapter.read(this.path)).split("\n").forEach((line) => {
+      try {
+        if (line.trim() !== "") {
+          entries.push(JSON.parse(line));
+        }
+      }
+      catch (e) {
+        // a line cut short by a crash is skipped
+      }
+    });
+    return entries;
+  }
+
+  async read() {
+    await this.queue;
+    return this.readEntries();
+  }
+
+  // drops entries older than the retention period, then the oldest ones beyond the entry limit
+  prune() {
+    const { revealLogRetentionDays, revealLogMaxEntries } = this.plugin.settings;
+    return this.enqueue(async () => {
+      const entries = await this.readEntries();
+      const cutoff = Date.now() - revealLogRetentionDays * DAY_MS;
+      let kept = revealLogRetentionDays > 0
+        ? entries.filter((e) => Date.parse(e.time) >= cutoff)
+        : entries;
+      if (revealLogMaxEntries > 0 && kept.length > revealLogMaxEntries) {
+        kept = kept.slice(kept.length - revealLogMaxEntries);
+      }
+      if (kept.length !== entries.length) {
+        await this.plugin.app.vault.adapter.write(this.path, kept.map((e) => JSON.stringify(e) + "\n").join(""));
+      }
+    });
+  }
+}
+
+export class RevealLogView extends ItemView {
+  plugin: PrivacyGlassesPlugin;
+  entries: RevealLogEntry[] = [];
+  query: string = "";
+  type: RevealLogEntryType | "" = "";
+  listEl: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, plugin: PrivacyGlassesPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.addAction("refresh-cw", "Refresh", () => this.render());
+  }
+
+  getViewType() {
+    return REVEAL_LOG_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Reveal log";
+  }
+
+  getIcon() {
+    return "eye";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("privacy-glasses-log");
+    const controls = contentEl.createDiv({ cls: "privacy-glasses-log-controls" });
+    const search = controls.createEl("input", { type: "search", placeholder: "Filter by path, level or source" });
+    search.addEventListener("input", () => {
+      this.query = search.value.trim().toLowerCase();
+      this.renderList();
+    });
+    new DropdownComponent(controls)
+      .addOptions({
+        "": "All entries",
+        [RevealLogEntryType.Level]: "Level changes",
+        [RevealLogEntryType.Reveal]: "Revealed private notes",
+      })
+      .setValue(this.type)
+      .onChange((value) => {
+        this.type = value as RevealLogEntryType | "";
+        this.renderList();
+      });
+    this.listEl = contentEl.createDiv({ cls: "privacy-glasses-log-list" });
+    await this.render();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+  }
+
+  async render() {
+    this.entries = await this.plugin.revealLog.read();
+    this.renderList();
+  }
+
+  describe(entry: RevealLogEntry) {
+    if (entry.type === RevealLogEntryType.Reveal) {
+      return entry.path ?? "";
+    }
+    const previous = entry.previous ? LEVEL_NAMES[entry.previous] : "";
+    const level = entry.level ? LEVEL_NAMES[entry.level] : "";
+    return `${previous} → ${level} (${entry.source ?? ""})`;
+  }
+
+  renderList() {
+    if (!this.listEl) {
+      return;
+    }
+    this.listEl.empty();
+    const entries = this.entries
+      .filter((e) => !this.type || e.type === this.type)
+      .filter((e) => !this.query || this.describe(e).toLowerCase().includes(this.query))
+      .reverse();
+    if (entries.length === 0) {
+      this.listEl.createEl("p", {
+        cls: "privacy-glasses-log-empty",
+        text: this.plugin.settings.revealLogEnabled ? "No entries." : "The reveal log is turned off in the settings.",
+      });
+      return;
+    }
+    entries.forEach((entry) => {
+      const item = this.listEl.createDiv({ cls: "privacy-glasses-log-item" });
+      item.createDiv({ cls: "privacy-glasses-log-time", text: new Date(entry.time).toLocaleString() });
+      const textEl = item.createDiv({ cls: "privacy-glasses-log-text", text: this.describe(entry) });
+      if (entry.type !== RevealLogEntryType.Reveal || !entry.path) {
+        return;
+      }
+      // the logged path may belong to a note that is private, or no longer exists
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      textEl.toggleClass(CssClass.PrivateSurface, !(file instanceof TFile) || this.plugin.isPrivate(file));
+      if (file instanceof TFile) {
+        item.addClass("is-clickable");
+        item.onClickEvent(() => this.app.workspace.getLeaf(false).openFile(file));
+      }
+    });
+  }
+}
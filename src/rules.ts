@@ -0,0 +1,151 @@
+import { App, TAbstractFile, TFile, TFolder, getAllTags } from 'obsidian';
+import { globToRegExp } from './glob';
+
+export enum RuleEffect {
+  "Include" = "include",
+  "Exclude" = "exclude",
+}
+
+export enum RuleMatch {
+  "Folder" = "folder",
+  "Tag" = "tag",
+  "Property" = "property",
+  "Filename" = "filename",
+}
+
+export interface PrivacyRule {
+  effect: RuleEffect;
+  match: RuleMatch;
+  // folder glob, comma-separated tags, `key` or `key: value`, or filename glob depending on `match`
+  value: string;
+}
+
+export interface PrivacyDecision {
+  isPrivate: boolean;
+  // the first rule that matched the file, if any
+  rule: PrivacyRule | null;
+}
+
+export function describeRule(rule: PrivacyRule) {
+  return `${rule.effect} ${rule.match} "${rule.value}"`;
+}
+
+// what made the decision, a decision without a rule comes from the note's own level property
+export function describeDecision(decision: PrivacyDecision, levelProperty: string) {
+  return decision.rule ? describeRule(decision.rule) : `its "${levelProperty}" property`;
+}
+
+function ancestorPaths(file: TAbstractFile) {
+  const paths: string[] = [];
+  let folder = file instanceof TFolder ? file : file.parent;
+  while (folder && !folder.isRoot()) {
+    paths.push(folder.path);
+    folder = folder.parent;
+  }
+  return paths;
+}
+
+export function parseTags(value: string) {
+  return value
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter((t) => t !== "")
+    .map((t) => t.startsWith("#") ? t : "#" + t);
+}
+
+export function propertyKeyOf(value: string) {
+  const separator = value.indexOf(":");
+  return (separator < 0 ? value : value.slice(0, separator)).trim();
+}
+
+function matchesProperty(frontmatter: Record<string, unknown> | undefined, value: string) {
+  if (!frontmatter) {
+    return false;
+  }
+  const separator = value.indexOf(":");
+  const key = propertyKeyOf(value);
+  const expected = separator < 0 ? null : value.slice(separator + 1).trim().toLowerCase();
+  if (!key || !(key in frontmatter)) {
+    return false;
+  }
+  const actual = frontmatter[key];
+  const actualValues = Array.isArray(actual) ? actual : [actual];
+  if (expected === null) {
+    return actualValues.some((v) => !!v);
+  }
+  return actualValues.some((v) => String(v).toLowerCase() === expected);
+}
+
+export function matchesRule(app: App, file: TAbstractFile, rule: PrivacyRule) {
+  if (!rule.value || rule.value.trim() === "") {
+    return false;
+  }
+  switch (rule.match) {
+    case RuleMatch.Folder: {
+      // a folder rule also covers everything nested below the matched folder
+      const re = globToRegExp(rule.value);
+      return ancestorPaths(file).some((p) => re.test(p));
+    }
+    case RuleMatch.Filename:
+      return file instanceof TFile && globToRegExp(rule.value).test(file.name);
+    case RuleMatch.Tag: {
+      if (!(file instanceof TFile)) {
+        return false;
+      }
+      const cache = app.metadataCache.getFileCache(file);
+      const fileTags = (cache ? getAllTags(cache) : []).map((t) => t.toLowerCase());
+      return parseTags(rule.value).some((tag) =>
+        fileTags.some((t) => t === tag || t.startsWith(tag + "/")));
+    }
+    case RuleMatch.Property: {
+      if (!(file instanceof TFile)) {
+        return false;
+      }
+      return matchesProperty(app.metadataCache.getFileCache(file)?.frontmatter, rule.value);
+    }
+  }
+  return false;
+}
+
+// rules are checked in order, the first matching rule decides
+export function evaluatePrivacy(app: App, file: TAbstractFile, rules: PrivacyRule[]): PrivacyDecision {
+  for (const rule of rules) {
+    if (matchesRule(app, file, rule)) {
+      return { isPrivate: rule.effect === RuleEffect.Include, rule };
+    }
+  }
+  return { isPrivate: false, rule: null };
+}
+
+// converts the settings of versions before rules existed
+export function rulesFromLegacySettings(privateDirs: string | undefined, privateNoteMarker: string | undefined) {
+  const rules: PrivacyRule[] = [];
+  (privateDirs ?? "")
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d !== "")
+    .forEach((d) => rules.push({ effect: RuleEffect.Include, match: RuleMatch.Folder, value: d }));
+  if (privateNoteMarker && privateNoteMarker.trim() !== "") {
+    rules.push({ effect: RuleEffect.Include, match: RuleMatch.Tag, value: privateNoteMarker.trim() });
+  }
+  return rules;
+}
+
+export enum NoteLevel {
+  "Hidden" = "hidden",
+  "Headlines" = "headlines",
+  "Public" = "public",
+}
+
+// reads the per-note level from frontmatter, unknown values are ignored
+export function noteLevelOf(app: App, file: TFile, property: string): NoteLevel | null {
+  if (!property) {
+    return null;
+  }
+  const value = app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+  if (typeof value !== "string") {
+    return null;
+  }
+  const level = value.trim().toLowerCase();
+  return (Object.values(NoteLevel) as string[]).includes(level) ? level as NoteLevel : null;
+}
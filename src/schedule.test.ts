@@ -0,0 +1,119 @@
+import { Level } from './constants';
+import { ScheduleRule, activeScheduleRule, isScheduleRuleActive, parseDays, parseTime } from './schedule';
+
+// 2024-01-01 is a monday, dates are local time like the schedule itself
+function at(day: number, hours: number, minutes: number = 0) {
+  return new Date(2024, 0, day, hours, minutes);
+}
+
+function rule(days: string, from: string, to: string, level: Level = Level.HideAll): ScheduleRule {
+  return { days, from, to, level };
+}
+
+describe("parseDays", () => {
+  test("an empty list means every day", () => {
+    expect(Array.from(parseDays("")).sort()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(Array.from(parseDays(" , ")).sort()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  test("reads names, abbreviations and lists", () => {
+    expect(Array.from(parseDays("sat, Sunday")).sort()).toEqual([0, 6]);
+    expect(Array.from(parseDays("tues")).sort()).toEqual([2]);
+  });
+
+  test("reads ranges", () => {
+    expect(Array.from(parseDays("mon-fri")).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(Array.from(parseDays("mon – wed")).sort()).toEqual([1, 2, 3]);
+  });
+
+  test("ranges wrap around the end of the week", () => {
+    expect(Array.from(parseDays("fri-mon")).sort()).toEqual([0, 1, 5, 6]);
+  });
+
+  test("a list that can't be read yields no day", () => {
+    expect(parseDays("mo-fr").size).toBe(0);
+    expect(parseDays("weekdays").size).toBe(0);
+    expect(parseDays("monkey").size).toBe(0);
+    expect(parseDays("mon, xyz").size).toBe(0);
+    expect(parseDays("mon-wed-fri").size).toBe(0);
+  });
+});
+
+describe("parseTime", () => {
+  test("reads hours and minutes", () => {
+    expect(parseTime("09:30")).toBe(9 * 60 + 30);
+    expect(parseTime("7:05")).toBe(7 * 60 + 5);
+    expect(parseTime(" 00:00 ")).toBe(0);
+  });
+
+  test("accepts 24:00 as the end of the day", () => {
+    expect(parseTime("24:00")).toBe(24 * 60);
+    expect(parseTime("24:01")).toBeNull();
+  });
+
+  test("rejects invalid input", () => {
+    expect(parseTime("")).toBeNull();
+    expect(parseTime("25:00")).toBeNull();
+    expect(parseTime("12:60")).toBeNull();
+    expect(parseTime("12")).toBeNull();
+    expect(parseTime("noon")).toBeNull();
+  });
+});
+
+describe("isScheduleRuleActive", () => {
+  test("applies between from and to on the listed days", () => {
+    const workHours = rule("mon-fri", "09:00", "18:00");
+    expect(isScheduleRuleActive(workHours, at(1, 9))).toBe(true);
+    expect(isScheduleRuleActive(workHours, at(1, 17, 59))).toBe(true);
+    expect(isScheduleRuleActive(workHours, at(1, 18))).toBe(false);
+    expect(isScheduleRuleActive(workHours, at(1, 8, 59))).toBe(false);
+    expect(isScheduleRuleActive(workHours, at(6, 10))).toBe(false);
+  });
+
+  test("an overnight rule belongs to the day it starts on", () => {
+    const night = rule("fri", "22:00", "06:00");
+    expect(isScheduleRuleActive(night, at(5, 23))).toBe(true);
+    expect(isScheduleRuleActive(night, at(6, 5, 59))).toBe(true);
+    expect(isScheduleRuleActive(night, at(6, 6))).toBe(false);
+    expect(isScheduleRuleActive(night, at(6, 23))).toBe(false);
+    expect(isScheduleRuleActive(night, at(5, 5))).toBe(false);
+  });
+
+  test("an overnight rule on a wrap-around range continues into the next week", () => {
+    const weekend = rule("fri-mon", "20:00", "08:00");
+    expect(isScheduleRuleActive(weekend, at(7, 21))).toBe(true);
+    expect(isScheduleRuleActive(weekend, at(8, 7))).toBe(true);
+    expect(isScheduleRuleActive(weekend, at(9, 7))).toBe(true);
+    expect(isScheduleRuleActive(weekend, at(9, 21))).toBe(false);
+    expect(isScheduleRuleActive(weekend, at(4, 7))).toBe(false);
+  });
+
+  test("a rule ending at 24:00 runs until midnight", () => {
+    const evening = rule("", "18:00", "24:00");
+    expect(isScheduleRuleActive(evening, at(3, 23, 59))).toBe(true);
+    expect(isScheduleRuleActive(evening, at(4, 0))).toBe(false);
+  });
+
+  test("a rule starting and ending at the same time lasts all day", () => {
+    expect(isScheduleRuleActive(rule("sat", "00:00", "00:00"), at(6, 12))).toBe(true);
+    expect(isScheduleRuleActive(rule("sat", "00:00", "00:00"), at(7, 12))).toBe(false);
+  });
+
+  test("a rule with invalid times or days never applies", () => {
+    expect(isScheduleRuleActive(rule("", "9am", "18:00"), at(1, 12))).toBe(false);
+    expect(isScheduleRuleActive(rule("", "09:00", ""), at(1, 12))).toBe(false);
+    expect(isScheduleRuleActive(rule("weekdays", "09:00", "18:00"), at(1, 12))).toBe(false);
+  });
+});
+
+describe("activeScheduleRule", () => {
+  test("the first active rule decides", () => {
+    const rules = [
+      rule("sat, sun", "00:00", "00:00", Level.RevealAll),
+      rule("", "09:00", "18:00", Level.HidePrivate),
+    ];
+    expect(activeScheduleRule(rules, at(6, 12))).toBe(0);
+    expect(activeScheduleRule(rules, at(1, 12))).toBe(1);
+    expect(activeScheduleRule(rules, at(1, 20))).toBe(-1);
+  });
+});
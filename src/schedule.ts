@@ -0,0 +1,85 @@
+import { Level } from './constants';
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const TIME = /^(\d{1,2}):(\d{2})$/;
+
+export interface ScheduleRule {
+  // comma-separated days and ranges, e.g. "mon-fri" or "sat, sun", empty for every day
+  days: string;
+  // "HH:MM", a rule ending before it starts runs past midnight into the next day
+  from: string;
+  to: string;
+  level: Level;
+}
+
+// full names and abbreviations of at least three letters, e.g. "mon", "tues" or "monday"
+function dayIndex(name: string) {
+  const value = name.trim().toLowerCase();
+  return value.length < 3 ? -1 : DAY_NAMES.findIndex((day) => day.startsWith(value));
+}
+
+// an empty list means every day. a list with a part that isn't a day or a range of days yields no day at all,
+// so a typo turns the rule off instead of applying it all week
+export function parseDays(value: string) {
+  const days: Set<number> = new Set();
+  const parts = value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+  if (parts.length === 0) {
+    DAY_NAMES.forEach((name, day) => days.add(day));
+    return days;
+  }
+  for (const part of parts) {
+    const bounds = part.split(/\s*[-–]\s*/).map(dayIndex);
+    if (bounds.length > 2 || bounds.some((day) => day < 0)) {
+      return new Set<number>();
+    }
+    const [first, end = first] = bounds;
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) {
+        break;
+      }
+    }
+  }
+  return days;
+}
+
+// minutes since midnight, or null for anything that isn't a valid time
+export function parseTime(value: string) {
+  const match = TIME.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+export function isScheduleRuleActive(rule: ScheduleRule, date: Date) {
+  const from = parseTime(rule.from);
+  const to = parseTime(rule.to);
+  if (from === null || to === null) {
+    return false;
+  }
+  const days = parseDays(rule.days);
+  const day = date.getDay();
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  if (from === to) {
+    return days.has(day);
+  }
+  if (from < to) {
+    return days.has(day) && minutes >= from && minutes < to;
+  }
+  // the part after midnight belongs to the day the rule started on
+  return (days.has(day) && minutes >= from) || (days.has((day + 6) % 7) && minutes < to);
+}
+
+// index of the first active rule, like privacy rules the first match decides. -1 when no rule is active
+export function activeScheduleRule(rules: ScheduleRule[], date: Date) {
+  return rules.findIndex((rule) => isScheduleRuleActive(rule, date));
+}
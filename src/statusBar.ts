@@ -0,0 +1,81 @@
+import { FileView, Menu, TFile, setIcon } from 'obsidian';
+import { Level, LevelSource } from './constants';
+import { describeDecision } from './rules';
+import type PrivacyGlassesPlugin from '../main';
+
+export const LEVEL_ICONS: Record<Level, string> = {
+  [Level.HideAll]: "eye-closed",
+  [Level.HidePrivate]: "eye-slash",
+  [Level.RevealHeadlines]: "eye-glasses",
+  [Level.RevealAll]: "eye",
+};
+
+export const LEVEL_NAMES: Record<Level, string> = {
+  [Level.HideAll]: "Hide all",
+  [Level.HidePrivate]: "Hide private",
+  [Level.RevealHeadlines]: "Reveal headlines only",
+  [Level.RevealAll]: "Reveal all",
+};
+
+// "m:ss", used for the temporary reveal wherever it is offered or counted down
+export function formatDuration(seconds: number) {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+// shows the current level and whether the active note is private, a click opens the level switcher
+export class StatusBarIndicator {
+  plugin: PrivacyGlassesPlugin;
+  el: HTMLElement;
+  iconEl: HTMLElement;
+  badgeEl: HTMLElement;
+
+  constructor(plugin: PrivacyGlassesPlugin, el: HTMLElement) {
+    this.plugin = plugin;
+    this.el = el;
+    this.el.addClass("privacy-glasses-status", "mod-clickable");
+    this.iconEl = this.el.createSpan({ cls: "privacy-glasses-status-icon" });
+    this.badgeEl = this.el.createSpan({ cls: "privacy-glasses-status-badge", text: "private" });
+    this.plugin.registerDomEvent(this.el, "click", (e) => this.openMenu(e));
+  }
+
+  update() {
+    const { currentLevel } = this.plugin;
+    setIcon(this.iconEl, LEVEL_ICONS[currentLevel]);
+
+    const file = this.plugin.app.workspace.getActiveFile();
+    const decision = file ? this.plugin.getPrivacyDecision(file) : null;
+    this.badgeEl.toggle(!!decision?.isPrivate);
+
+    const tooltip = [`Privacy Glasses: ${LEVEL_NAMES[currentLevel]}`];
+    if (decision?.isPrivate) {
+      tooltip.push(`Current note is private (${describeDecision(decision, this.plugin.settings.levelProperty)})`);
+    }
+    this.el.setAttribute("aria-label", tooltip.join("\n"));
+    this.el.setAttribute("data-tooltip-position", "top");
+  }
+
+  openMenu(e: MouseEvent) {
+    const menu = new Menu();
+    (Object.keys(LEVEL_NAMES) as Level[]).forEach((level) => {
+      menu.addItem((item) => item
+        .setTitle(LEVEL_NAMES[level])
+        .setIcon(LEVEL_ICONS[level])
+        .setChecked(level === this.plugin.currentLevel)
+        .onClick(() => {
+          this.plugin.setLevel(level, LevelSource.StatusBar);
+        }));
+    });
+    const leaf = this.plugin.app.workspace.getMostRecentLeaf();
+    if (leaf && leaf.view instanceof FileView && leaf.view.file instanceof TFile) {
+      menu.addSeparator();
+      menu.addItem((item) => item
+        .setTitle(`Reveal current pane for ${formatDuration(this.plugin.settings.temporaryRevealSeconds)}`)
+        .setIcon("eye")
+        .onClick(() => {
+          this.plugin.revealLeafTemporarily(leaf);
+        }));
+    }
+    menu.showAtMouseEvent(e);
+  }
+}
@@ -0,0 +1,242 @@
+import { TAbstractFile, TFile, View, WorkspaceLeaf, debounce } from 'obsidian';
+import { CssClass, Level } from './constants';
+import type PrivacyGlassesPlugin from '../main';
+
+const GRAPH_MASK = "•••";
+// views whose content lists other files, their containers are observed for new or changed items
+const OBSERVED_VIEW_TYPES = ["search", "backlink", "outgoing-link", "outline", "bookmarks", "canvas"];
+
+// core views don't expose their result lists, these are the internal fields used below. any of them may be missing.
+interface ResultDom {
+  // search and backlink results keep their dom per file
+  resultDomLookup?: Map<TFile, { el: HTMLElement }>;
+}
+
+interface BookmarkItem {
+  type: string;
+  path?: string;
+}
+
+interface CanvasNode {
+  file?: TFile;
+  nodeEl?: HTMLElement;
+}
+
+// a label drawn on the graph canvas
+interface GraphText {
+  text: string;
+}
+
+interface GraphNode {
+  // path of the file the node stands for
+  id: string;
+  text?: GraphText;
+}
+
+interface CoreView extends View {
+  file?: TFile | null;
+  dom?: ResultDom;
+  backlink?: { backlinkDom?: ResultDom; unlinkedDom?: ResultDom };
+  outgoingLink?: { resolvedLinksDom?: ResultDom; linksDom?: ResultDom; unresolvedLinksDom?: ResultDom };
+  itemDoms?: Map<BookmarkItem, { el?: HTMLElement; selfEl?: HTMLElement }>;
+  canvas?: { nodes?: Map<string, CanvasNode> };
+  renderer?: { nodes?: GraphNode[] };
+}
+
+// private file names and snippets show up in many core views besides the file explorer.
+// each item is resolved to its file and marked, css blurs marked items according to the current level.
+export class SurfaceGuard {
+  plugin: PrivacyGlassesPlugin;
+  observers: Map<Document, MutationObserver> = new Map();
+  // observers of the result lists and prompts, dropped along with their container
+  containerObservers: WeakMap<HTMLElement, MutationObserver> = new WeakMap();
+  // original graph labels, graph nodes are drawn on a canvas so css can't hide them.
+  // weak, so labels of closed graph views don't keep them alive
+  graphLabels: WeakMap<GraphText, string> = new WeakMap();
+  scheduleUpdate = debounce(() => this.update(), 100);
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  // only the containers listing files are observed, their whole subtree would include every keystroke in a note.
+  // the body itself is observed without its subtree, prompts are added to it in their own modal container.
+  observe(doc: Document) {
+    const observer = new MutationObserver(() => {
+      if (this.observePrompts(doc)) {
+        this.scheduleUpdate();
+      }
+    });
+    observer.observe(doc.body, { childList: true });
+    this.observers.set(doc, observer);
+    this.observePrompts(doc);
+    this.scheduleUpdate();
+  }
+
+  unobserve(doc: Document) {
+    this.observers.get(doc)?.disconnect();
+    this.observers.delete(doc);
+    doc.querySelectorAll<HTMLElement>(".prompt").forEach((el) => this.unobserveContainer(el));
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view.containerEl.doc === doc) {
+        this.unobserveContainer(leaf.view.containerEl);
+      }
+    });
+    doc.querySelectorAll<HTMLElement>(`.${CssClass.PrivateSurface}`).forEach((el) => el.removeClass(CssClass.PrivateSurface));
+  }
+
+  // returns whether the container wasn't observed yet
+  observeContainer(el: HTMLElement) {
+    if (this.containerObservers.has(el)) {
+      return false;
+    }
+    const observer = new MutationObserver(() => this.scheduleUpdate());
+    observer.observe(el, { childList: true, subtree: true });
+    this.containerObservers.set(el, observer);
+    return true;
+  }
+
+  unobserveContainer(el: HTMLElement) {
+    this.containerObservers.get(el)?.disconnect();
+    this.containerObservers.delete(el);
+  }
+
+  // quick switcher and other suggestion prompts, returns whether a new one was found
+  observePrompts(doc: Document) {
+    let found = false;
+    doc.querySelectorAll<HTMLElement>(".prompt").forEach((el) => {
+      found = this.observeContainer(el) || found;
+    });
+    return found;
+  }
+
+  isPrivate(file: TAbstractFile | null) {
+    return !!file && this.plugin.isPrivateFile(file);
+  }
+
+  mark(el: HTMLElement | undefined, file: TAbstractFile | null) {
+    el?.toggleClass(CssClass.PrivateSurface, this.isPrivate(file));
+  }
+
+  update() {
+    const { workspace } = this.plugin.app;
+    workspace.iterateAllLeaves((leaf) => this.updateLeaf(leaf));
+    this.observers.forEach((observer, doc) => {
+      this.updateDataPaths(doc);
+      this.updateSuggestions(doc);
+    });
+    this.updateGraphLabels();
+  }
+
+  // every lookup of the internal fields is guarded, a surface that can't be resolved is simply left as it is
+  updateLeaf(leaf: WorkspaceLeaf) {
+    const view: CoreView = leaf.view;
+    if (OBSERVED_VIEW_TYPES.includes(view.getViewType())) {
+      this.observeContainer(view.containerEl);
+    }
+    switch (view.getViewType()) {
+      case "search":
+        this.markResults(view.dom);
+        break;
+      case "backlink":
+        this.markResults(view.backlink?.backlinkDom);
+        this.markResults(view.backlink?.unlinkedDom);
+        break;
+      case "outgoing-link":
+        this.markResults(view.outgoingLink?.resolvedLinksDom ?? view.outgoingLink?.linksDom);
+        this.markResults(view.outgoingLink?.unresolvedLinksDom);
+        // the pane lists the links of its own file, which is what gives a private note away
+        this.mark(view.containerEl, view.file ?? null);
+        break;
+      case "outline":
+        this.mark(view.containerEl, view.file ?? null);
+        break;
+      case "bookmarks":
+        view.itemDoms?.forEach((dom, item) => {
+          if (item?.type === "file" && item.path) {
+            this.mark(dom.selfEl ?? dom.el, this.plugin.app.vault.getAbstractFileByPath(item.path));
+          }
+        });
+        break;
+      case "canvas":
+        view.canvas?.nodes?.forEach((node) => {
+          if (node.file instanceof TFile) {
+            this.mark(node.nodeEl, node.file);
+          }
+        });
+        break;
+    }
+  }
+
+  markResults(dom: ResultDom | undefined) {
+    dom?.resultDomLookup?.forEach((result, file) => {
+      this.mark(result.el, file);
+    });
+  }
+
+  // anything outside the file explorer that carries the vault path, e.g. recent files lists of other plugins.
+  // their views aren't observed, they are marked whenever the leaves are updated.
+  // the explorer itself is covered by the css of `updatePrivateDirsEl`.
+  updateDataPaths(doc: Document) {
+    doc.querySelectorAll<HTMLElement>("[data-path]").forEach((el) => {
+      if (el.closest(".nav-files-container")) {
+        return;
+      }
+      this.mark(el, this.plugin.app.vault.getAbstractFileByPath(el.getAttribute("data-path")));
+    });
+  }
+
+  // quick switcher suggestions only render the file name and its folder
+  updateSuggestions(doc: Document) {
+    doc.querySelectorAll<HTMLElement>(".prompt .suggestion-item").forEach((el) => {
+      const title = el.querySelector(".suggestion-title")?.textContent?.trim();
+      if (!title) {
+        return;
+      }
+      const folder = el.querySelector(".suggestion-note")?.textContent?.trim();
+      const linkpath = folder ? `${folder}/${title}` : title;
+      this.mark(el, this.plugin.app.metadataCache.getFirstLinkpathDest(linkpath, ""));
+    });
+  }
+
+  // labels of the open graph views, closed ones are gone along with their labels
+  graphTexts() {
+    const texts: { text: GraphText, path: string }[] = [];
+    ["graph", "localgraph"].forEach((type) => {
+      this.plugin.app.workspace.getLeavesOfType(type).forEach((leaf) => {
+        const nodes = (leaf.view as CoreView).renderer?.nodes ?? [];
+        nodes.forEach((node) => {
+          if (node.text && typeof node.text.text === "string") {
+            texts.push({ text: node.text, path: node.id });
+          }
+        });
+      });
+    });
+    return texts;
+  }
+
+  setGraphLabel(text: GraphText, hide: boolean) {
+    const label = this.graphLabels.get(text);
+    if (hide && label === undefined) {
+      this.graphLabels.set(text, text.text);
+      text.text = GRAPH_MASK;
+    }
+    else if (!hide && label !== undefined) {
+      text.text = label;
+      this.graphLabels.delete(text);
+    }
+  }
+
+  restoreGraphLabels() {
+    this.graphTexts().forEach(({ text }) => this.setGraphLabel(text, false));
+  }
+
+  // called every second as well, because labels are created lazily while zooming the graph
+  updateGraphLabels() {
+    const reveal = this.plugin.currentLevel === Level.RevealAll;
+    const { vault } = this.plugin.app;
+    this.graphTexts().forEach(({ text, path }) => {
+      this.setGraphLabel(text, !reveal && this.isPrivate(vault.getAbstractFileByPath(path)));
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { FileView, TFile, View, WorkspaceLeaf } from 'obsidian';
+import type PrivacyGlassesPlugin from '../main';
+
+const MASKED_TITLE = "Private note";
+
+// the tab header elements are internal, leaves without a tab header don't have them
+interface TabHeaderLeaf extends WorkspaceLeaf {
+  tabHeaderEl?: HTMLElement;
+  tabHeaderInnerTitleEl?: HTMLElement;
+}
+
+// tab headers and the window title aren't covered by the blur, they show up in the os task switcher and on shared screens.
+// while a private note is hidden both show a generic title instead of its name.
+export class TitleGuard {
+  plugin: PrivacyGlassesPlugin;
+  observers: Map<Document, MutationObserver> = new Map();
+  // obsidian writes the real name into the tab header whenever a leaf loads a file, the observer masks it again
+  // before the next paint
+  leafObservers: WeakMap<WorkspaceLeaf, MutationObserver> = new WeakMap();
+  // the title obsidian set, and the masked title we replaced it with
+  originalTitles: Map<Document, string> = new Map();
+  maskedTitles: Map<Document, string> = new Map();
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    this.plugin = plugin;
+  }
+
+  // obsidian rewrites the window title whenever the active leaf changes, so the <title> element is watched
+  observe(doc: Document) {
+    const observer = new MutationObserver(() => this.updateWindowTitle(doc));
+    const titleEl = doc.head.querySelector("title");
+    if (titleEl) {
+      observer.observe(titleEl, { childList: true, characterData: true, subtree: true });
+    }
+    this.observers.set(doc, observer);
+    this.updateWindowTitle(doc);
+  }
+
+  unobserve(doc: Document) {
+    this.observers.get(doc)?.disconnect();
+    this.observers.delete(doc);
+    this.restoreWindowTitle(doc);
+  }
+
+  isMasked(view: View) {
+    const file = (view as FileView).file;
+    return view instanceof FileView && file instanceof TFile &&
+      this.plugin.isPrivateFile(file) && !this.plugin.shouldRevealLeaf(view);
+  }
+
+  update() {
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => this.updateLeaf(leaf));
+    this.observers.forEach((observer, doc) => this.updateWindowTitle(doc));
+  }
+
+  updateLeaf(leaf: WorkspaceLeaf) {
+    this.observeLeaf(leaf);
+    this.setTabTitle(leaf, this.isMasked(leaf.view) ? MASKED_TITLE : leaf.view.getDisplayText());
+  }
+
+  observeLeaf(leaf: WorkspaceLeaf) {
+    const { tabHeaderInnerTitleEl } = leaf as TabHeaderLeaf;
+    if (!tabHeaderInnerTitleEl || this.leafObservers.has(leaf)) {
+      return;
+    }
+    // setting the same title again doesn't change the element, so our own update doesn't trigger another one
+    const observer = new MutationObserver(() => this.updateLeaf(leaf));
+    observer.observe(tabHeaderInnerTitleEl, { childList: true, characterData: true, subtree: true });
+    this.leafObservers.set(leaf, observer);
+  }
+
+  // a leaf without tab header elements is left as it is
+  setTabTitle(leaf: WorkspaceLeaf, title: string) {
+    const { tabHeaderEl, tabHeaderInnerTitleEl } = leaf as TabHeaderLeaf;
+    if (tabHeaderInnerTitleEl && tabHeaderInnerTitleEl.getText() !== title) {
+      tabHeaderInnerTitleEl.setText(title);
+    }
+    if (tabHeaderEl?.hasAttribute("aria-label")) {
+      tabHeaderEl.setAttribute("aria-label", title);
+    }
+  }
+
+  // names of the hidden private notes shown in a window, the window title starts with the active one
+  maskedNames(doc: Document) {
+    const names: string[] = [];
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view.containerEl.doc === doc && this.isMasked(leaf.view)) {
+        names.push(leaf.view.getDisplayText());
+      }
+    });
+    return names;
+  }
+
+  updateWindowTitle(doc: Document) {
+    const current = doc.title;
+    // anything else than our own masked title was set by obsidian in the meantime
+    const title = current === this.maskedTitles.get(doc) ? this.originalTitles.get(doc) : current;
+    const name = this.maskedNames(doc).find((n) => title === n || title.startsWith(n + " - "));
+    if (!name) {
+      this.restoreWindowTitle(doc);
+      return;
+    }
+    const masked = MASKED_TITLE + title.slice(name.length);
+    this.originalTitles.set(doc, title);
+    this.maskedTitles.set(doc, masked);
+    if (current !== masked) {
+      doc.title = masked;
+    }
+  }
+
+  restoreWindowTitle(doc: Document) {
+    const original = this.originalTitles.get(doc);
+    if (original !== undefined && doc.title === this.maskedTitles.get(doc)) {
+      doc.title = original;
+    }
+    this.originalTitles.delete(doc);
+    this.maskedTitles.delete(doc);
+  }
+
+  restore() {
+    this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+      this.leafObservers.get(leaf)?.disconnect();
+      this.leafObservers.delete(leaf);
+      this.setTabTitle(leaf, leaf.view.getDisplayText());
+    });
+    Array.from(this.observers.keys()).forEach((doc) => this.unobserve(doc));
+  }
+}